@@ -43,6 +43,17 @@ type FilterOptions = {
   taskName?: string;
 };
 
+// record: save the model responses of each task as replay fixtures
+// replay: run the tasks offline with the recorded fixtures
+type ReplayMode = 'record' | 'replay' | null;
+
+function parseReplayMode(): ReplayMode {
+  const args = process.argv.slice(2);
+  if (args.includes('--record')) return 'record';
+  if (args.includes('--replay')) return 'replay';
+  return null;
+}
+
 // Parse command line arguments
 function parseArguments(): FilterOptions | null {
   const args = process.argv.slice(2);
@@ -86,7 +97,11 @@ function shouldIncludeTask(
 }
 
 // Get model from environment variables
-function getModelFromEnv(): string {
+function getModelFromEnv(replayMode: ReplayMode): string {
+  if (replayMode === 'replay') {
+    logInfo('🤖 Replaying recorded fixtures');
+    return 'replay/order';
+  }
   const model = process.env.E2E_MODEL;
 
   if (!model) {
@@ -148,6 +163,7 @@ function executeCli(
   cwd: string,
   model: string,
   args: string[],
+  replay?: { mode: ReplayMode; fixturePath: string },
 ): Promise<string> {
   return new Promise((resolve, reject) => {
     const cliArgs = [
@@ -159,11 +175,16 @@ function executeCli(
       '-q',
       '--output-format',
       'stream-json',
+      ...(replay?.mode === 'record' ? ['--record', replay.fixturePath] : []),
       ...args,
     ];
 
     const child = spawn('bun', cliArgs, {
       stdio: ['pipe', 'pipe', 'pipe'],
+      env:
+        replay?.mode === 'replay'
+          ? { ...process.env, REPLAY_FIXTURE: replay.fixturePath }
+          : process.env,
     });
     let stdout = '';
     let stderr = '';
@@ -188,7 +209,11 @@ function executeCli(
   });
 }
 
-async function runTask(task: Task, model: string): Promise<TaskResult> {
+async function runTask(
+  task: Task,
+  model: string,
+  replayMode: ReplayMode,
+): Promise<TaskResult> {
   const startTime = Date.now();
 
   logRunning(
@@ -200,7 +225,7 @@ async function runTask(task: Task, model: string): Promise<TaskResult> {
       task: TaskModule;
     };
 
-    if (taskModule.model) {
+    if (taskModule.model && replayMode !== 'replay') {
       model = taskModule.model;
     }
 
@@ -218,7 +243,20 @@ async function runTask(task: Task, model: string): Promise<TaskResult> {
       `Executing CLI with model ${colors.yellow}${model}${colors.reset} and args: ${colors.dim}${taskModule.cliArgs.join(' ')}${colors.reset}`,
     );
 
-    const result = await executeCli(tmpPath, model, taskModule.cliArgs);
+    const replayFixturePath = path.join(
+      path.dirname(task.taskFilePath),
+      '../replays',
+      `${task.taskName}.jsonl`,
+    );
+    if (replayMode === 'replay' && !fs.existsSync(replayFixturePath)) {
+      throw new Error(
+        `Replay fixture not found: ${replayFixturePath}, run with --record first`,
+      );
+    }
+    const result = await executeCli(tmpPath, model, taskModule.cliArgs, {
+      mode: replayMode,
+      fixturePath: replayFixturePath,
+    });
 
     const data = result
       .split('\n')
@@ -272,6 +310,7 @@ async function runAllTasks(
   fixturesDir: string,
   model: string,
   filter: FilterOptions | null = null,
+  replayMode: ReplayMode = null,
 ): Promise<TaskResult[]> {
   const allResults: TaskResult[] = [];
   const fixtures = fs
@@ -368,6 +407,7 @@ async function runAllTasks(
           fixtureName: fixture,
         },
         model,
+        replayMode,
       );
 
       allResults.push(result);
@@ -450,7 +490,8 @@ function normalizeTaskFilePath(taskFilePath: string) {
   const startTime = Date.now();
   const fixturePath = path.join(__dirname, '../e2e/fixtures');
   const filter = parseArguments();
-  const model = getModelFromEnv();
+  const replayMode = parseReplayMode();
+  const model = getModelFromEnv(replayMode);
 
   if (filter) {
     if (filter.taskName) {
@@ -463,7 +504,7 @@ function normalizeTaskFilePath(taskFilePath: string) {
   }
 
   try {
-    const results = await runAllTasks(fixturePath, model, filter);
+    const results = await runAllTasks(fixturePath, model, filter, replayMode);
 
     if (results.length === 0) {
       logError(
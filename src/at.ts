@@ -1,12 +1,22 @@
-import type { LanguageModelV2Prompt } from '@ai-sdk/provider';
+import type {
+  LanguageModelV2FilePart,
+  LanguageModelV2Message,
+  LanguageModelV2Prompt,
+} from '@ai-sdk/provider';
 import fs from 'fs';
+import { countTokens } from 'gpt-tokenizer';
 import path from 'pathe';
 import { IMAGE_EXTENSIONS } from './constants';
+import type { ModelModalities } from './model';
+import { DOCUMENT_EXTENSIONS, readDocument } from './utils/document';
+import { getErrorMessage } from './utils/error';
 import { createFileTree, listDirectory, printTree } from './utils/list';
 
 const MAX_LINE_LENGTH_TEXT_FILE = 2000;
 const MAX_LINES_TO_READ = 2000;
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// Same limit as the read tool
+const MAX_DOCUMENT_TOKENS = 25000;
 
 interface AtPath {
   path: string;
@@ -16,21 +26,43 @@ interface AtPath {
   };
 }
 
+interface FileEntry {
+  filePath: string;
+  lineRange?: { start: number; end?: number };
+}
+
+interface ProcessedFile {
+  content: string;
+  metadata: string;
+  file: string;
+}
+
 export class At {
   private userPrompt: string;
   private cwd: string;
-  constructor(opts: { userPrompt: string; cwd: string }) {
+  private modalities: ModelModalities['input'];
+  constructor(opts: {
+    userPrompt: string;
+    cwd: string;
+    modalities?: ModelModalities['input'];
+  }) {
     this.userPrompt = opts.userPrompt;
     this.cwd = opts.cwd;
+    this.modalities = opts.modalities ?? ['text'];
   }
 
-  getContent() {
+  /**
+   * The contents of the mentioned files and directories, and the files to
+   * attach to the message, PDF documents or their rendered pages for models
+   * that can see them.
+   */
+  async getContent(): Promise<{
+    text: string;
+    files: LanguageModelV2FilePart[];
+  } | null> {
     const prompt = this.userPrompt || '';
     const ats = this.extractAtPaths(prompt);
-    const fileEntries: Array<{
-      filePath: string;
-      lineRange?: { start: number; end?: number };
-    }> = [];
+    const fileEntries: FileEntry[] = [];
     const directories: string[] = [];
 
     // Step 1: Classify files vs directories
@@ -54,14 +86,15 @@ export class At {
 
     // Step 2: Process separately and merge
     let result = '';
+    const files: LanguageModelV2FilePart[] = [];
     if (fileEntries.length > 0) {
-      result += this.renderFilesToXml(fileEntries);
+      result += await this.renderFilesToXml(fileEntries, files);
     }
     if (directories.length > 0) {
       result += this.renderDirectoriesToTree(directories);
     }
 
-    return result || null;
+    return result ? { text: result, files } : null;
   }
 
   private extractAtPaths(prompt: string): AtPath[] {
@@ -136,38 +169,41 @@ export class At {
     return treeOutput;
   }
 
-  renderFilesToXml(
-    fileEntries: Array<{
-      filePath: string;
-      lineRange?: { start: number; end?: number };
-    }>,
-  ): string {
-    const processedFiles = fileEntries
-      .filter(
-        (entry) =>
-          !IMAGE_EXTENSIONS.has(path.extname(entry.filePath).toLowerCase()),
-      )
-      .map((entry) => {
-        // Single file size limit cannot exceed 10MB
-        const stat = fs.statSync(entry.filePath);
-        if (stat.size > MAX_FILE_SIZE) {
-          return {
-            content: '// File too large to display',
-            metadata: `File size: ${Math.round(stat.size / 1024 / 1024)}MB (skipped)`,
-            file: entry.filePath,
-          };
-        }
-        const content = fs.readFileSync(entry.filePath, 'utf-8');
-        if (content === undefined || content === null) {
-          throw new Error(`Failed to read file: ${entry.filePath}`);
-        }
-        const result = this.processFileContent(content, entry.lineRange);
-        return {
-          content: result.content,
-          metadata: result.metadata,
+  async renderFilesToXml(
+    fileEntries: FileEntry[],
+    files: LanguageModelV2FilePart[] = [],
+  ): Promise<string> {
+    const processedFiles: ProcessedFile[] = [];
+    for (const entry of fileEntries) {
+      const ext = path.extname(entry.filePath).toLowerCase();
+      if (IMAGE_EXTENSIONS.has(ext)) {
+        continue;
+      }
+      // Single file size limit cannot exceed 10MB
+      const stat = fs.statSync(entry.filePath);
+      if (stat.size > MAX_FILE_SIZE) {
+        processedFiles.push({
+          content: '// File too large to display',
+          metadata: `File size: ${Math.round(stat.size / 1024 / 1024)}MB (skipped)`,
           file: entry.filePath,
-        };
+        });
+        continue;
+      }
+      if (DOCUMENT_EXTENSIONS.has(ext)) {
+        processedFiles.push(await this.processDocument(entry, files));
+        continue;
+      }
+      const content = fs.readFileSync(entry.filePath, 'utf-8');
+      if (content === undefined || content === null) {
+        throw new Error(`Failed to read file: ${entry.filePath}`);
+      }
+      const result = this.processFileContent(content, entry.lineRange);
+      processedFiles.push({
+        content: result.content,
+        metadata: result.metadata,
+        file: entry.filePath,
       });
+    }
 
     const fileContents = processedFiles
       .map(
@@ -184,6 +220,74 @@ export class At {
     return `<files>This section contains the contents of the repository's files.\n${fileContents}\n</files>`;
   }
 
+  /**
+   * A line range selects the pages of a PDF, the sheets of a spreadsheet or
+   * the lines of a Word document. Whole PDFs are attached as is for models
+   * that read PDFs, the pages are rendered for models that only see images.
+   */
+  private async processDocument(
+    entry: FileEntry,
+    files: LanguageModelV2FilePart[],
+  ): Promise<ProcessedFile> {
+    const { filePath, lineRange } = entry;
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.pdf' && !lineRange && this.modalities.includes('pdf')) {
+      files.push({
+        type: 'file',
+        filename: path.basename(filePath),
+        data: fs.readFileSync(filePath).toString('base64'),
+        mediaType: 'application/pdf',
+      });
+      return {
+        content: '',
+        metadata: 'PDF document (attached to the message)',
+        file: filePath,
+      };
+    }
+    const selection: { pages?: string; offset?: number; limit?: number } = {};
+    if (lineRange) {
+      const end = lineRange.end ?? lineRange.start;
+      if (ext === '.docx') {
+        selection.offset = lineRange.start;
+        selection.limit = end - lineRange.start + 1;
+      } else {
+        selection.pages = `${lineRange.start}-${end}`;
+      }
+    }
+    try {
+      const document = await readDocument(filePath, {
+        ...selection,
+        render: this.modalities.includes('image'),
+      });
+      const tokenCount = countTokens(document.text);
+      if (tokenCount > MAX_DOCUMENT_TOKENS) {
+        return {
+          content: '',
+          metadata: `Document too large (${tokenCount} tokens, skipped), mention a page range like @${path.relative(this.cwd, filePath)}:1-5 or use the read tool`,
+          file: filePath,
+        };
+      }
+      for (const { image } of document.images) {
+        files.push({
+          type: 'file',
+          data: image.data.split(';base64,')[1],
+          mediaType: image.mimeType,
+        });
+      }
+      return {
+        content: document.text,
+        metadata: `Document, ${document.description}`,
+        file: filePath,
+      };
+    } catch (error) {
+      return {
+        content: '',
+        metadata: `Error: ${getErrorMessage(error)}`,
+        file: filePath,
+      };
+    }
+  }
+
   getAllFilesInDirectory(dirPath: string): string[] {
     const files: string[] = [];
     const traverse = (currentPath: string) => {
@@ -286,27 +390,39 @@ export class At {
     };
   }
 
-  static normalizeLanguageV2Prompt(opts: {
+  static async normalizeLanguageV2Prompt(opts: {
     input: LanguageModelV2Prompt;
     cwd: string;
-  }): LanguageModelV2Prompt {
-    const lastUserMessage = [...opts.input].reverse().find((item) => {
-      return 'role' in item && item.role === 'user';
-    });
+    modalities?: ModelModalities['input'];
+    // Index of the message with the mentions, the last user message by
+    // default
+    messageIndex?: number;
+  }): Promise<LanguageModelV2Prompt> {
+    const isUserMessage = (
+      item: LanguageModelV2Message | undefined,
+    ): item is Extract<LanguageModelV2Message, { role: 'user' }> =>
+      !!item && 'role' in item && item.role === 'user';
+    const lastUserMessage =
+      opts.messageIndex === undefined
+        ? [...opts.input].reverse().find(isUserMessage)
+        : [opts.input[opts.messageIndex]].find(isUserMessage);
     if (!lastUserMessage) {
       return opts.input;
     }
     const content = lastUserMessage.content;
-    for (const item of content) {
+    // The attached files go after the text parts
+    for (const item of [...content]) {
       if (item.type === 'text') {
         const userPrompt = item.text;
         const at = new At({
           userPrompt,
           cwd: opts.cwd,
+          modalities: opts.modalities,
         });
-        const content = at.getContent();
-        if (content) {
-          item.text += `\n\n${content}`;
+        const result = await at.getContent();
+        if (result) {
+          item.text += `\n\n${result.text}`;
+          content.push(...result.files);
         }
       }
     }
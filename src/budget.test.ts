@@ -0,0 +1,104 @@
+import { expect, test } from 'vitest';
+import {
+  addUsageToSpend,
+  emptySpend,
+  formatSpend,
+  getBudgetRatio,
+  getUsageCost,
+  mergeSpend,
+} from './budget';
+import type { ModelInfo } from './model';
+import { Usage } from './usage';
+
+function createTestModel(cost?: { input: number; output: number }) {
+  return {
+    provider: { id: 'test' },
+    model: { id: 'model', cost },
+  } as unknown as ModelInfo;
+}
+
+test('computes cost from model cost per 1M tokens', () => {
+  const usage = new Usage({
+    promptTokens: 1000,
+    completionTokens: 500,
+    totalTokens: 1500,
+  });
+  const cost = getUsageCost(usage, createTestModel({ input: 3, output: 15 }));
+  expect(cost).toBeCloseTo(0.0105);
+});
+
+test('treats models without cost info as free', () => {
+  const usage = new Usage({ promptTokens: 1000, totalTokens: 1000 });
+  expect(getUsageCost(usage, createTestModel())).toBe(0);
+});
+
+test('accumulates spend across turns', () => {
+  const spend = emptySpend();
+  const model = createTestModel({ input: 1, output: 2 });
+  addUsageToSpend(
+    spend,
+    new Usage({
+      promptTokens: 100,
+      completionTokens: 50,
+      totalTokens: 150,
+    }),
+    model,
+  );
+  addUsageToSpend(
+    spend,
+    new Usage({
+      promptTokens: 200,
+      completionTokens: 50,
+      totalTokens: 250,
+    }),
+    model,
+  );
+  expect(spend.tokens).toBe(400);
+  expect(spend.costUSD).toBeCloseTo(0.0005);
+});
+
+test('counts the tokens of models without cost info apart', () => {
+  const spend = emptySpend();
+  addUsageToSpend(
+    spend,
+    new Usage({ promptTokens: 100, totalTokens: 100 }),
+    createTestModel(),
+  );
+  expect(spend).toEqual({ tokens: 100, costUSD: 0, uncountedTokens: 100 });
+  expect(formatSpend(spend, { maxCostUSD: 1 })).toBe(
+    '100 tokens, $0.0000 / $1.00, 100 tokens without cost info',
+  );
+});
+
+test('merges the spend of a loop into the saved spend', () => {
+  const base = { tokens: 100, costUSD: 0.1 };
+  const spend = { tokens: 300, costUSD: 0.3, uncountedTokens: 50 };
+  expect(mergeSpend({ tokens: 120, costUSD: 0.2 }, base, spend)).toEqual({
+    tokens: 320,
+    costUSD: expect.closeTo(0.4),
+    uncountedTokens: 50,
+  });
+  expect(mergeSpend(undefined, emptySpend(), spend)).toEqual(spend);
+});
+
+test('uses the highest ratio of the configured limits', () => {
+  const spend = { tokens: 500, costUSD: 0.9 };
+  expect(getBudgetRatio(spend, {})).toBe(0);
+  expect(getBudgetRatio(spend, { maxTokens: 1000 })).toBe(0.5);
+  expect(getBudgetRatio(spend, { maxTokens: 1000, maxCostUSD: 1 })).toBe(0.9);
+});
+
+test('accepts limits written as strings', () => {
+  const spend = { tokens: 500, costUSD: 0.25 };
+  const limits = { maxCostUSD: '1' as unknown as number };
+  expect(getBudgetRatio(spend, limits)).toBe(0.25);
+  expect(formatSpend(spend, limits)).toBe('500 tokens, $0.2500 / $1.00');
+});
+
+test('formats spend with limits', () => {
+  const spend = { tokens: 500, costUSD: 0.25 };
+  expect(formatSpend(spend, { maxTokens: 1000, maxCostUSD: 1 })).toBe(
+    '500 / 1000 tokens, $0.2500 / $1.00',
+  );
+  expect(formatSpend(spend, {})).toBe('500 tokens, $0.2500');
+});
@@ -0,0 +1,110 @@
+import type { ModelInfo } from './model';
+import type { Usage } from './usage';
+
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export type BudgetSpend = {
+  tokens: number;
+  costUSD: number;
+  // Tokens of models without cost info, they are not in costUSD
+  uncountedTokens?: number;
+};
+
+export type BudgetLimits = {
+  maxTokens?: number;
+  maxCostUSD?: number;
+};
+
+export function emptySpend(): BudgetSpend {
+  return { tokens: 0, costUSD: 0 };
+}
+
+/**
+ * Cost of the usage in USD, model cost is in USD per 1M tokens.
+ * Models without cost info are free as far as the budget is concerned.
+ */
+export function getUsageCost(usage: Usage, model: ModelInfo): number {
+  const cost = model.model.cost;
+  if (!cost) {
+    return 0;
+  }
+  return (
+    (usage.promptTokens * (cost.input || 0) +
+      usage.completionTokens * (cost.output || 0)) /
+    1_000_000
+  );
+}
+
+export function addUsageToSpend(
+  spend: BudgetSpend,
+  usage: Usage,
+  model: ModelInfo,
+) {
+  spend.tokens += usage.totalTokens;
+  if (model.model.cost) {
+    spend.costUSD += getUsageCost(usage, model);
+  } else {
+    spend.uncountedTokens = (spend.uncountedTokens ?? 0) + usage.totalTokens;
+  }
+}
+
+/**
+ * Add what was spent since `base` to the spend saved in the session, which
+ * may have been updated meanwhile, e.g. by the title generation.
+ */
+export function mergeSpend(
+  saved: BudgetSpend | undefined,
+  base: BudgetSpend,
+  spend: BudgetSpend,
+): BudgetSpend {
+  return {
+    tokens: (saved?.tokens ?? 0) + spend.tokens - base.tokens,
+    costUSD: (saved?.costUSD ?? 0) + spend.costUSD - base.costUSD,
+    uncountedTokens:
+      (saved?.uncountedTokens ?? 0) +
+      (spend.uncountedTokens ?? 0) -
+      (base.uncountedTokens ?? 0),
+  };
+}
+
+// Limits written by hand in the config file may be strings
+function getLimit(limit: number | undefined) {
+  const value = Number(limit);
+  return value > 0 ? value : 0;
+}
+
+/**
+ * The highest used ratio of the configured limits, 0 when no limit is set.
+ */
+export function getBudgetRatio(spend: BudgetSpend, limits: BudgetLimits) {
+  const maxTokens = getLimit(limits.maxTokens);
+  const maxCostUSD = getLimit(limits.maxCostUSD);
+  let ratio = 0;
+  if (maxTokens) {
+    ratio = Math.max(ratio, spend.tokens / maxTokens);
+  }
+  if (maxCostUSD) {
+    ratio = Math.max(ratio, spend.costUSD / maxCostUSD);
+  }
+  return ratio;
+}
+
+export function formatSpend(spend: BudgetSpend, limits: BudgetLimits) {
+  const maxTokens = getLimit(limits.maxTokens);
+  const maxCostUSD = getLimit(limits.maxCostUSD);
+  const parts: string[] = [];
+  parts.push(
+    maxTokens
+      ? `${spend.tokens} / ${maxTokens} tokens`
+      : `${spend.tokens} tokens`,
+  );
+  parts.push(
+    maxCostUSD
+      ? `$${spend.costUSD.toFixed(4)} / $${maxCostUSD.toFixed(2)}`
+      : `$${spend.costUSD.toFixed(4)}`,
+  );
+  if (maxCostUSD && spend.uncountedTokens) {
+    parts.push(`${spend.uncountedTokens} tokens without cost info`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'pathe';
+import { afterEach, beforeEach, expect, test } from 'vitest';
+import { CheckpointStore, getRewindPoints } from './checkpoint';
+import type { NormalizedMessage } from './message';
+
+let tmpDir: string;
+let store: CheckpointStore;
+
+function file(name: string) {
+  return path.join(tmpDir, 'src', name);
+}
+
+function message(
+  uuid: string,
+  role: 'user' | 'assistant',
+  content: NormalizedMessage['content'],
+): NormalizedMessage {
+  return {
+    type: 'message',
+    uuid,
+    parentUuid: null,
+    timestamp: new Date().toISOString(),
+    role,
+    content,
+  } as NormalizedMessage;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoint-'));
+  store = new CheckpointStore({ dir: path.join(tmpDir, 'checkpoints') });
+  fs.mkdirSync(path.join(tmpDir, 'src'));
+  fs.writeFileSync(file('a.ts'), 'a1');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('restores the files changed since a turn', () => {
+  store.addTurn('m1');
+  store.snapshotFile(file('a.ts'));
+  fs.writeFileSync(file('a.ts'), 'a2');
+  store.addTurn('m2');
+  store.snapshotFile(file('a.ts'));
+  fs.writeFileSync(file('a.ts'), 'a3');
+  store.snapshotFile(file('b.ts'));
+  fs.writeFileSync(file('b.ts'), 'b1');
+
+  expect(store.getChangedFiles('m2')).toEqual([file('a.ts'), file('b.ts')]);
+  expect(store.restoreFiles('m2')).toEqual([
+    { filePath: file('a.ts'), action: 'restored' },
+    { filePath: file('b.ts'), action: 'deleted' },
+  ]);
+  expect(fs.readFileSync(file('a.ts'), 'utf-8')).toBe('a2');
+  expect(fs.existsSync(file('b.ts'))).toBe(false);
+
+  store.restoreFiles('m1');
+  expect(fs.readFileSync(file('a.ts'), 'utf-8')).toBe('a1');
+  expect(store.getChangedFiles('unknown')).toBeNull();
+  expect(() => store.restoreFiles('unknown')).toThrow('No checkpoint');
+});
+
+test('lists the messages to rewind to with the commands run since', () => {
+  store.addTurn('u2');
+  store.snapshotFile(file('a.ts'));
+  const messages = [
+    message('u1', 'user', 'install deps'),
+    message('a1', 'assistant', [
+      {
+        type: 'tool_use',
+        id: 't1',
+        name: 'bash',
+        input: { command: 'pnpm i' },
+      },
+    ]),
+    message('u2', 'user', 'fix a.ts'),
+    message('a2', 'assistant', [
+      { type: 'tool_use', id: 't2', name: 'edit', input: {} },
+      {
+        type: 'tool_use',
+        id: 't3',
+        name: 'bash',
+        input: { command: 'pnpm test' },
+      },
+    ]),
+  ];
+
+  expect(getRewindPoints(messages, store)).toMatchObject([
+    {
+      messageUuid: 'u2',
+      text: 'fix a.ts',
+      hasCheckpoint: true,
+      changedFiles: [file('a.ts')],
+      bashCommands: ['pnpm test'],
+    },
+    {
+      messageUuid: 'u1',
+      hasCheckpoint: false,
+      changedFiles: [],
+      bashCommands: ['pnpm i', 'pnpm test'],
+    },
+  ]);
+});
+
+test('uses the checkpoint of the original of a message kept by compaction', () => {
+  store.addTurn('u1');
+  store.snapshotFile(file('a.ts'));
+  const messages = [
+    message('summary', 'user', 'summary of the conversation'),
+    { ...message('u1-copy', 'user', 'fix a.ts'), originalUuid: 'u1' },
+  ];
+
+  expect(getRewindPoints(messages, store)[0]).toMatchObject({
+    messageUuid: 'u1-copy',
+    checkpointUuid: 'u1',
+    hasCheckpoint: true,
+    changedFiles: [file('a.ts')],
+  });
+});
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'pathe';
+import { TOOL_NAMES } from './constants';
+import {
+  getMessageText,
+  isToolResultMessage,
+  type NormalizedMessage,
+  type UserMessage,
+} from './message';
+import type { Paths } from './paths';
+
+type TurnEntry = {
+  type: 'turn';
+  messageUuid: string;
+  timestamp: string;
+};
+
+type FileEntry = {
+  type: 'file';
+  filePath: string;
+  // Hash of the content before the change, null when the file didn't exist
+  blob: string | null;
+  toolCallId?: string;
+  timestamp: string;
+};
+
+type CheckpointEntry = TurnEntry | FileEntry;
+
+export type RewindPoint = {
+  messageUuid: string;
+  // The turn of a message kept by compaction is the one of the original
+  checkpointUuid: string;
+  text: string;
+  timestamp: string;
+  // False for the turns that were run without checkpoints
+  hasCheckpoint: boolean;
+  // Files changed by the agent since the message
+  changedFiles: string[];
+  // Commands run since the message, their side effects can't be undone
+  bashCommands: string[];
+};
+
+export type RestoredFile = {
+  filePath: string;
+  action: 'restored' | 'deleted';
+};
+
+export function getCheckpointDir(paths: Paths, sessionId: string) {
+  return path.join(paths.globalProjectDir, 'checkpoints', sessionId);
+}
+
+/**
+ * Per session store of the file contents before the agent changed them.
+ *
+ * A turn entry is written when the user sends a message and a file entry
+ * before each `edit`, `multi_edit` or `write`, with the content in a blob
+ * named by its hash. Restoring the code to a message puts back the first
+ * snapshot of each file changed after the turn of the message.
+ */
+export class CheckpointStore {
+  dir: string;
+  indexPath: string;
+
+  constructor(opts: { dir: string }) {
+    this.dir = opts.dir;
+    this.indexPath = path.join(opts.dir, 'index.jsonl');
+  }
+
+  #append(entry: CheckpointEntry) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.appendFileSync(this.indexPath, `${JSON.stringify(entry)}\n`);
+  }
+
+  #getBlobPath(blob: string) {
+    return path.join(this.dir, 'blobs', blob);
+  }
+
+  #readEntries(): CheckpointEntry[] {
+    if (!fs.existsSync(this.indexPath)) {
+      return [];
+    }
+    return fs
+      .readFileSync(this.indexPath, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as CheckpointEntry];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  // Entries written after the turn of the message, null without a turn
+  #getEntriesSince(messageUuid: string) {
+    const entries = this.#readEntries();
+    const index = entries.findIndex(
+      (entry) => entry.type === 'turn' && entry.messageUuid === messageUuid,
+    );
+    return index === -1 ? null : entries.slice(index + 1);
+  }
+
+  addTurn(messageUuid: string) {
+    this.#append({
+      type: 'turn',
+      messageUuid,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  snapshotFile(filePath: string, opts: { toolCallId?: string } = {}) {
+    let blob: string | null = null;
+    if (fs.existsSync(filePath)) {
+      const content = fs.readFileSync(filePath);
+      blob = crypto.createHash('sha1').update(content).digest('hex');
+      const blobPath = this.#getBlobPath(blob);
+      if (!fs.existsSync(blobPath)) {
+        fs.mkdirSync(path.dirname(blobPath), { recursive: true });
+        fs.writeFileSync(blobPath, content);
+      }
+    }
+    this.#append({
+      type: 'file',
+      filePath,
+      blob,
+      toolCallId: opts.toolCallId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  getChangedFiles(messageUuid: string) {
+    const entries = this.#getEntriesSince(messageUuid);
+    if (!entries) {
+      return null;
+    }
+    const files = entries
+      .filter((entry): entry is FileEntry => entry.type === 'file')
+      .map((entry) => entry.filePath);
+    return [...new Set(files)];
+  }
+
+  /**
+   * Put the files changed since the turn of the message back to how they
+   * were before the first change, files created since then are deleted.
+   */
+  restoreFiles(messageUuid: string): RestoredFile[] {
+    const entries = this.#getEntriesSince(messageUuid);
+    if (!entries) {
+      throw new Error('No checkpoint found for this message');
+    }
+    const firstSnapshots = new Map<string, FileEntry>();
+    for (const entry of entries) {
+      if (entry.type === 'file' && !firstSnapshots.has(entry.filePath)) {
+        firstSnapshots.set(entry.filePath, entry);
+      }
+    }
+    const restored: RestoredFile[] = [];
+    for (const { filePath, blob } of firstSnapshots.values()) {
+      if (blob === null) {
+        if (fs.existsSync(filePath)) {
+          fs.rmSync(filePath);
+          restored.push({ filePath, action: 'deleted' });
+        }
+        continue;
+      }
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, fs.readFileSync(this.#getBlobPath(blob)));
+      restored.push({ filePath, action: 'restored' });
+    }
+    return restored;
+  }
+}
+
+/**
+ * The user messages of the conversation that can be rewound to, the most
+ * recent first, with what happened since each of them.
+ */
+export function getRewindPoints(
+  messages: NormalizedMessage[],
+  store: CheckpointStore,
+): RewindPoint[] {
+  const points: RewindPoint[] = [];
+  const bashCommands: string[] = [];
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index];
+    if (message.role === 'assistant' && Array.isArray(message.content)) {
+      for (const part of [...message.content].reverse()) {
+        if (part.type === 'tool_use' && part.name === TOOL_NAMES.BASH) {
+          bashCommands.unshift(part.input.command);
+        }
+      }
+    }
+    if (
+      message.role !== 'user' ||
+      (message as UserMessage).hidden ||
+      isToolResultMessage(message)
+    ) {
+      continue;
+    }
+    const checkpointUuid = message.originalUuid ?? message.uuid;
+    const changedFiles = store.getChangedFiles(checkpointUuid);
+    points.push({
+      messageUuid: message.uuid,
+      checkpointUuid,
+      text: getMessageText(message),
+      timestamp: message.timestamp,
+      hasCheckpoint: changedFiles !== null,
+      changedFiles: changedFiles ?? [],
+      bashCommands: [...bashCommands],
+    });
+  }
+  return points;
+}
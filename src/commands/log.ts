@@ -5,7 +5,11 @@ import { platform } from 'os';
 import path from 'pathe';
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import type { Context } from '../context';
-import { filterMessages } from '../session';
+import { filterMessages, getActiveLeafUuid } from '../session';
+import type {
+  ClearedToolResult,
+  ToolResultsClearedEntry,
+} from '../staleToolResults';
 import PaginatedGroupSelectInput from '../ui/PaginatedGroupSelectInput';
 
 // Utility function: Get cross-platform file open command
@@ -108,6 +112,18 @@ function loadAllSessionMessages(logPath: string): NormalizedMessage[] {
   return items.filter((i) => i && i.type === 'message') as NormalizedMessage[];
 }
 
+// Keyed by tool call id, the original results are still in the log
+function loadClearedToolResults(
+  logPath: string,
+): Map<string, ClearedToolResult> {
+  const items = readJsonlFile(logPath).filter(
+    (i) => i && i.type === 'tool_results_cleared',
+  ) as ToolResultsClearedEntry[];
+  return new Map(
+    items.flatMap((i) => i.cleared).map((c) => [c.toolCallId, c] as const),
+  );
+}
+
 function loadAllRequestLogs(
   requestsDir: string,
   messages: NormalizedMessage[],
@@ -174,9 +190,13 @@ type RenderableItem =
       name: string;
       result: any;
       isError: boolean;
+      cleared?: ClearedToolResult;
     };
 
-function buildRenderableItems(messages: NormalizedMessage[]): RenderableItem[] {
+function buildRenderableItems(
+  messages: NormalizedMessage[],
+  clearedToolResults: Map<string, ClearedToolResult>,
+): RenderableItem[] {
   const items: RenderableItem[] = [];
   const toolResultsMap = new Map<
     string,
@@ -246,6 +266,7 @@ function buildRenderableItems(messages: NormalizedMessage[]): RenderableItem[] {
             name: resultData.name,
             result: resultData.result,
             isError: resultData.isError,
+            cleared: clearedToolResults.get(toolUse.id),
           });
         }
       }
@@ -261,9 +282,16 @@ function buildHtml(opts: {
   messages: NormalizedMessage[];
   requestLogs: ReturnType<typeof loadAllRequestLogs>;
   activeUuids: Set<string>;
+  clearedToolResults: Map<string, ClearedToolResult>;
 }) {
-  const { sessionId, sessionLogPath, messages, requestLogs, activeUuids } =
-    opts;
+  const {
+    sessionId,
+    sessionLogPath,
+    messages,
+    requestLogs,
+    activeUuids,
+    clearedToolResults,
+  } = opts;
   const title = `Session ${sessionId}`;
 
   const assistantMap: Record<string, string | null> = {};
@@ -284,7 +312,7 @@ function buildHtml(opts: {
     messagesMap[m.uuid] = m as AnyJson;
   }
 
-  const renderableItems = buildRenderableItems(messages);
+  const renderableItems = buildRenderableItems(messages, clearedToolResults);
 
   const messagesHtml = renderableItems
     .map((item) => {
@@ -344,12 +372,19 @@ function buildHtml(opts: {
         const parentIsActive = activeUuids.has(item.id);
         const disabledCls = parentIsActive ? '' : ' disabled';
         const uuidBadge = `<div class="uuid-badge">${escapeHtml(item.id.slice(0, 8))}</div>`;
+        // Cleared results show what the model got, the original is a click away
+        const contentHtml = item.cleared
+          ? `<pre>${escapeHtml(item.cleared.placeholder)}</pre>
+  <details><summary>Show original result (~${item.cleared.tokens} tokens cleared before compaction)</summary><pre>${resultStr}</pre></details>`
+          : `<pre>${resultStr}</pre>`;
         return `<div class="msg tool-result indented ${
           item.isError ? 'error' : 'success'
-        }${disabledCls}">
+        }${item.cleared ? ' cleared' : ''}${disabledCls}">
   ${uuidBadge}
-  <div class="meta">${statusLabel} Tool Result: ${escapeHtml(item.name)}</div>
-  <div class="content"><pre>${resultStr}</pre></div>
+  <div class="meta">${statusLabel} Tool Result: ${escapeHtml(item.name)}${
+    item.cleared ? ' · cleared' : ''
+  }</div>
+  <div class="content">${contentHtml}</div>
 </div>`;
       }
       return '';
@@ -372,6 +407,8 @@ function buildHtml(opts: {
     .msg.tool-call { background: #fffbf0; border-left: 3px solid #f59e0b; }
     .msg.tool-result { background: #f0fdf4; border-left: 3px solid #10b981; }
     .msg.tool-result.error { background: #fef2f2; border-left: 3px solid #ef4444; }
+    .msg.tool-result.cleared { border-left-style: dashed; }
+    .msg.tool-result details summary { cursor: pointer; color: #666; font-size: 12px; margin-top: 6px; }
     .uuid-badge { position: absolute; top: 8px; right: 10px; font-size: 10px; font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; color: #999; background: rgba(255, 255, 255, 0.8); padding: 2px 6px; border-radius: 3px; }
     .msg.disabled { opacity: 0.4; }
     .msg.disabled.tool-call,
@@ -490,22 +527,33 @@ function buildHtml(opts: {
 </html>`;
 }
 
-async function generateHtmlForSession(context: Context, sessionId: string) {
-  const sessionLogPath = context.paths.getSessionLogPath(sessionId);
+/**
+ * Render a session log as a standalone HTML page, with the request logs that
+ * are next to the log.
+ */
+export function buildSessionHtml(sessionLogPath: string, sessionId: string) {
   const messages = loadAllSessionMessages(sessionLogPath);
-  const activeMessages = filterMessages(messages as any);
+  const activeMessages = filterMessages(
+    messages as any,
+    getActiveLeafUuid(readJsonlFile(sessionLogPath)),
+  );
   const activeUuids = new Set(activeMessages.map((m) => m.uuid));
+  // Locate requests/ directory relative to the session file
   const requestsDir = path.join(path.dirname(sessionLogPath), 'requests');
   const requestLogs = loadAllRequestLogs(requestsDir, messages);
+  const clearedToolResults = loadClearedToolResults(sessionLogPath);
 
-  const html = buildHtml({
+  return buildHtml({
     sessionId,
     sessionLogPath,
     messages,
     requestLogs,
     activeUuids,
+    clearedToolResults,
   });
+}
 
+function writeHtml(sessionId: string, html: string) {
   const outDir = path.join(process.cwd(), '.log-outputs');
   if (!fs.existsSync(outDir)) {
     fs.mkdirSync(outDir, { recursive: true });
@@ -515,31 +563,15 @@ async function generateHtmlForSession(context: Context, sessionId: string) {
   return outPath;
 }
 
+async function generateHtmlForSession(context: Context, sessionId: string) {
+  const sessionLogPath = context.paths.getSessionLogPath(sessionId);
+  return writeHtml(sessionId, buildSessionHtml(sessionLogPath, sessionId));
+}
+
 async function generateHtmlForFile(filePath: string) {
   // Extract session ID from filename for display
   const sessionId = path.basename(filePath, '.jsonl');
-  const messages = loadAllSessionMessages(filePath);
-  const activeMessages = filterMessages(messages as any);
-  const activeUuids = new Set(activeMessages.map((m) => m.uuid));
-  // Locate requests/ directory relative to the session file
-  const requestsDir = path.join(path.dirname(filePath), 'requests');
-  const requestLogs = loadAllRequestLogs(requestsDir, messages);
-
-  const html = buildHtml({
-    sessionId,
-    sessionLogPath: filePath,
-    messages,
-    requestLogs,
-    activeUuids,
-  });
-
-  const outDir = path.join(process.cwd(), '.log-outputs');
-  if (!fs.existsSync(outDir)) {
-    fs.mkdirSync(outDir, { recursive: true });
-  }
-  const outPath = path.join(outDir, `session-${sessionId}.html`);
-  fs.writeFileSync(outPath, html, 'utf-8');
-  return outPath;
+  return writeHtml(sessionId, buildSessionHtml(filePath, sessionId));
 }
 
 const LogUI: React.FC<{ context: Context }> = ({ context }) => {
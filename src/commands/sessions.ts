@@ -0,0 +1,256 @@
+import path from 'pathe';
+import type { Context } from '../context';
+import {
+  importSession,
+  SESSION_EXPORT_FORMATS,
+  type SessionExportFormat,
+  writeSessionExport,
+} from '../sessionExport';
+import { searchSessions } from '../sessionSearch';
+
+function printHelp(p: string) {
+  console.log(
+    `
+Usage:
+  ${p} sessions [options] [command]
+
+List, search, export and import the sessions of the current project. (e.g. ${p} sessions list)
+
+Options:
+  -h, --help                    Show help
+
+Commands:
+  list|ls [options]             List sessions, most recent first
+  search [options] <query>      Search past sessions
+  export [options] <id>         Export a session as Markdown, HTML or JSON
+  import <file>                 Import a session from a JSON export
+  rebuild-index                 Rebuild the session index from the session logs
+  help                          Show help
+
+List Options:
+  --page <n>                    Page to show (default: 1)
+  --limit <n>                   Sessions per page (default: 50)
+  --tag, -t <tag>               Only sessions with this tag, repeatable
+
+Search Options:
+  --since <date>                Only sessions modified after this date
+  --until <date>                Only sessions modified before this date
+  --model, -m <model>           Only sessions with responses of this model
+  --tag, -t <tag>               Only sessions with this tag, repeatable
+  --limit <n>                   Max number of results (default: 20)
+
+Export Options:
+  --format, -f <format>         md, html or json (default: md)
+  --output, -o <file>           Output file (default: session-<id>.<format>)
+
+Examples:
+  ${p} sessions list --page 2
+  ${p} sessions list -t auth -t bug
+  ${p} sessions search flaky websocket test
+  ${p} sessions search src/server.ts --since 2025-01-01
+  ${p} sessions search "rate limit" -m anthropic/claude-sonnet-4
+  ${p} sessions export 1a2b3c4d -f json
+  ${p} sessions import session-1a2b3c4d.json
+  ${p} sessions rebuild-index
+      `.trim(),
+  );
+}
+
+function parseDate(value: string | undefined, name: string) {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date for --${name}: ${value}`);
+  }
+  return date;
+}
+
+function parseCount(value: unknown, name: string, defaultValue: number) {
+  if (value === undefined) {
+    return defaultValue;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(
+      `Invalid value for --${name}: ${value}, expected a number of at least 1`,
+    );
+  }
+  return count;
+}
+
+function formatSummary(session: { summary: string; tags?: string[] }) {
+  const tags = (session.tags || []).map((tag) => `#${tag}`);
+  return [session.summary || 'No summary', ...tags].join(' ');
+}
+
+function runList(context: Context, argv: any) {
+  const limit = parseCount(argv.limit, 'limit', 50);
+  const page = parseCount(argv.page, 'page', 1);
+  const { sessions, total } = context.paths.listSessions({
+    offset: (page - 1) * limit,
+    limit,
+    tags: argv.tag,
+  });
+  if (sessions.length === 0) {
+    console.log(total ? `No sessions on page ${page}.` : 'No sessions found.');
+    return;
+  }
+  for (const session of sessions) {
+    const cost =
+      session.costUSD !== undefined ? `$${session.costUSD.toFixed(4)}` : '-';
+    console.log(
+      [
+        session.sessionId,
+        session.modified.toLocaleString(),
+        `${session.messageCount} msgs`,
+        session.model || '-',
+        cost,
+        formatSummary(session),
+      ].join('  '),
+    );
+  }
+  const pages = Math.ceil(total / limit);
+  console.log(`\nPage ${page} of ${pages}, ${total} sessions`);
+}
+
+function runRebuildIndex(context: Context) {
+  const total = context.paths.getSessionIndex().rebuild();
+  console.log(`Session index rebuilt, ${total} sessions indexed.`);
+}
+
+async function runExport(context: Context, argv: any) {
+  const productName = context.productName.toLowerCase();
+  const sessionId = argv._[1] ? String(argv._[1]) : undefined;
+  if (!sessionId) {
+    console.error('Error: Session id is required');
+    console.log(`\nRun '${productName} sessions --help' for usage.`);
+    process.exit(1);
+  }
+  const format = (argv.format || 'md') as SessionExportFormat;
+  if (!SESSION_EXPORT_FORMATS.includes(format)) {
+    throw new Error(
+      `Invalid format: ${format}, expected one of ${SESSION_EXPORT_FORMATS.join(', ')}`,
+    );
+  }
+  const outPath = await writeSessionExport({
+    paths: context.paths,
+    sessionId,
+    format,
+    cwd: process.cwd(),
+    output: argv.output,
+  });
+  console.log(`Session exported to ${outPath}`);
+}
+
+function runImport(context: Context, argv: any) {
+  const productName = context.productName.toLowerCase();
+  const filePath = argv._[1] ? String(argv._[1]) : undefined;
+  if (!filePath) {
+    console.error('Error: Export file is required');
+    console.log(`\nRun '${productName} sessions --help' for usage.`);
+    process.exit(1);
+  }
+  const sessionId = importSession({
+    paths: context.paths,
+    filePath: path.resolve(process.cwd(), filePath),
+  });
+  console.log(`Session imported as ${sessionId}`);
+  console.log(`Resume it with: ${productName} --resume ${sessionId}`);
+}
+
+async function runSearch(context: Context, argv: any) {
+  const productName = context.productName.toLowerCase();
+  const query = argv._.slice(1).join(' ').trim();
+  if (!query) {
+    console.error('Error: Search query is required');
+    console.log(`\nRun '${productName} sessions --help' for usage.`);
+    process.exit(1);
+  }
+
+  const sessions = searchSessions(context.paths, {
+    query,
+    since: parseDate(argv.since, 'since'),
+    until: parseDate(argv.until, 'until'),
+    model: argv.model,
+    tags: argv.tag,
+    limit: parseCount(argv.limit, 'limit', 20),
+  });
+  if (sessions.length === 0) {
+    console.log(`No sessions found for "${query}".`);
+    return;
+  }
+
+  for (const session of sessions) {
+    console.log(
+      `${session.sessionId}  ${session.modified.toLocaleString()}  ${formatSummary(session)}`,
+    );
+    for (const match of session.matches) {
+      console.log(`  [${match.kind}] ${match.snippet}`);
+    }
+    console.log();
+  }
+  console.log(`Resume a session with: ${productName} -r <session-id>`);
+  console.log(`Or pick one of them with: ${productName} "/resume ${query}"`);
+}
+
+export async function runSessions(context: Context) {
+  const { default: yargsParser } = await import('yargs-parser');
+  const productName = context.productName;
+  const argv = yargsParser(process.argv.slice(3), {
+    alias: {
+      help: 'h',
+      model: 'm',
+      format: 'f',
+      output: 'o',
+      tag: 't',
+    },
+    array: ['tag'],
+    boolean: ['help'],
+    string: ['since', 'until', 'model', 'format', 'output', 'tag'],
+    number: ['limit', 'page'],
+  });
+  const command = argv._[0];
+
+  if (!command || command === 'help' || argv.help) {
+    printHelp(productName.toLowerCase());
+    return;
+  }
+
+  try {
+    switch (command) {
+      case 'list':
+      case 'ls': {
+        runList(context, argv);
+        break;
+      }
+      case 'export': {
+        await runExport(context, argv);
+        break;
+      }
+      case 'import': {
+        runImport(context, argv);
+        break;
+      }
+      case 'rebuild-index': {
+        runRebuildIndex(context);
+        break;
+      }
+      case 'search': {
+        await runSearch(context, argv);
+        break;
+      }
+      default: {
+        console.error(`Unknown command: ${command}`);
+        console.log(
+          `\nRun '${productName.toLowerCase()} sessions --help' for usage.`,
+        );
+        process.exit(1);
+      }
+    }
+  } catch (error: any) {
+    console.error(`Error: ${error.message}`);
+    process.exit(1);
+  }
+}
@@ -1,24 +1,124 @@
+import type { BudgetSpend } from './budget';
+import type { Context } from './context';
 import type { NormalizedMessage } from './message';
 import type { ModelInfo } from './model';
+import { PluginHookType } from './plugin';
 import { query } from './query';
 import { normalizeMessagesForCompact } from './utils/messageNormalization';
 
 type CompactOptions = {
   messages: NormalizedMessage[];
   model: ModelInfo;
+  /**
+   * What the summary should focus on, e.g. from `/compact <instructions>`.
+   */
+  instructions?: string;
+  /**
+   * Facts the summary must keep, added by the `beforeCompact` plugin hook.
+   */
+  keep?: string[];
+  // The usage of the summary request is added to it
+  budgetSpend?: BudgetSpend;
+};
+
+export type CompactTrigger = 'auto' | 'manual';
+
+// Progress of an automatic compaction, sent to the UI
+export type CompactStatus = 'start' | 'done' | 'cancelled';
+
+export type BeforeCompactResult = {
+  keep?: string[];
+  cancel?: boolean;
+};
+
+export type CompactionConfig = {
+  /**
+   * Number of recent turns kept word for word when the history is compacted
+   * automatically, only the older messages are summarized. Set to 0 to
+   * summarize the whole history.
+   *
+   * @default 2
+   */
+  keepRecentTurns?: number;
+  /**
+   * Max number of tokens of the recent messages kept word for word.
+   *
+   * @default 20% of the model context window
+   */
+  keepRecentTokens?: number;
 };
 
 export const COMPACT_MESSAGE = `Chat history compacted successfully.`;
 
+export function getCompactMessage(kept: { messages: number; tokens: number }) {
+  if (kept.messages === 0) {
+    return COMPACT_MESSAGE;
+  }
+  return `Chat history compacted successfully, kept the last ${kept.messages} messages (~${kept.tokens} tokens) as is.`;
+}
+
+/**
+ * Let plugins add facts the summary must keep, or cancel the compaction.
+ */
+export async function applyBeforeCompactHook(
+  context: Context,
+  opts: {
+    sessionId: string;
+    messages: NormalizedMessage[];
+    trigger: CompactTrigger;
+    instructions?: string;
+  },
+): Promise<Required<BeforeCompactResult>> {
+  const results: BeforeCompactResult[] = await context.apply({
+    hook: 'beforeCompact',
+    args: [opts],
+    type: PluginHookType.Parallel,
+  });
+  return {
+    keep: results.flatMap((result) => result.keep || []),
+    cancel: results.some((result) => result.cancel),
+  };
+}
+
+/**
+ * Let plugins change the summary, e.g. to add the current todo list back.
+ */
+export async function applyAfterCompactHook(
+  context: Context,
+  summary: string,
+  opts: { sessionId: string; trigger: CompactTrigger },
+): Promise<string> {
+  return await context.apply({
+    hook: 'afterCompact',
+    args: [opts],
+    memo: summary,
+    type: PluginHookType.SeriesLast,
+  });
+}
+
+function getCompactUserPrompt(opts: CompactOptions) {
+  let prompt = COMPACT_USER_PROMPT;
+  if (opts.instructions?.trim()) {
+    prompt += `\nPay special attention to the following instructions from the user:\n${opts.instructions.trim()}\n`;
+  }
+  if (opts.keep?.length) {
+    prompt += `\nThe summary must keep the following facts:\n${opts.keep
+      .map((fact) => `- ${fact}`)
+      .join('\n')}\n`;
+  }
+  return prompt;
+}
+
 export async function compact(opts: CompactOptions): Promise<string> {
   // why: The toolConfig field must be defined when using toolUse and toolResult content blocks
   const normalizedMessages = normalizeMessagesForCompact(opts.messages);
 
   const result = await query({
     messages: normalizedMessages,
-    userPrompt: COMPACT_USER_PROMPT,
+    userPrompt: getCompactUserPrompt(opts),
     systemPrompt: COMPACT_SYSTEM_PROMPT,
     model: opts.model,
+    budgetSpend: opts.budgetSpend,
   });
   if (result.success) {
     const summary = result.data.text;
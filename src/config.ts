@@ -3,6 +3,8 @@ import fs from 'fs';
 import { homedir } from 'os';
 import path from 'pathe';
 import { mergeBrowserMcpServers } from './browser';
+import type { CompactionConfig } from './compact';
+import type { LoopDetectionConfig } from './loopDetection';
 import type { Provider } from './model';
 
 export type McpStdioServerConfig = {
@@ -50,7 +52,17 @@ export type Config = {
   model: string;
   planModel: string;
   smallModel?: string;
+  /**
+   * Model used to summarize the conversation when it's compacted, falls back
+   * to `smallModel`.
+   */
+  compactModel?: string;
   visionModel?: string;
+  /**
+   * Models to switch to, in order, when the provider of the current model
+   * keeps failing (5xx, overloaded, quota exhausted).
+   */
+  fallbackModels?: string[];
   language: string;
   quiet: boolean;
   approvalMode: ApprovalMode;
@@ -66,6 +78,59 @@ export type Config = {
    * @default true
    */
   autoCompact?: boolean;
+  /**
+   * How much of the recent history is kept as is by automatic compaction.
+   */
+  compaction?: CompactionConfig;
+  /**
+   * Max number of read-only tool calls (read, grep, glob, ...) that run
+   * concurrently when the model returns several tool calls in one turn.
+   *
+   * @default 10
+   */
+  toolConcurrency?: number;
+  /**
+   * Token budget of a session, the agent stops once the input and output
+   * tokens of all its requests reach it.
+   */
+  maxTokens?: number;
+  /**
+   * Cost budget of a session in USD, only counted for models with cost info.
+   */
+  maxCostUSD?: number;
+  /**
+   * Shell commands (e.g. `pnpm typecheck && pnpm test`) run before the agent
+   * finishes a turn in which it changed files or ran commands. The output of
+   * a failing command is sent back to the agent to fix the problems.
+   */
+  verifyCommands?: string[];
+  /**
+   * Max number of times a failed verification is sent back to the agent.
+   *
+   * @default 3
+   */
+  verifyMaxAttempts?: number;
+  /**
+   * Inject messages queued while the agent is running into the current turn
+   * after its tool calls, instead of sending them when the turn ends.
+   * @default false
+   */
+  steering?: boolean;
+  /**
+   * Fix common mistakes in tool parameters from the model, e.g. numbers sent
+   * as strings, before validating them against the tool schema.
+   */
+  coerceToolParams?: boolean;
+  /**
+   * Detection of the agent repeating the same tool calls, it's warned on the
+   * first detection and stopped on the second one.
+   */
+  loopDetection?: LoopDetectionConfig;
+  /**
+   * File to save the model requests and responses to, in the fixture format
+   * of the replay provider. Set by the --record flag.
+   */
+  record?: string;
   commit?: CommitConfig;
   outputStyle?: string;
   outputFormat?: 'text' | 'stream-json' | 'json';
@@ -95,6 +160,8 @@ const DEFAULT_CONFIG: Partial<Config> = {
   provider: {},
   todo: true,
   autoCompact: true,
+  steering: false,
+  coerceToolParams: true,
   outputFormat: 'text',
   autoUpdate: true,
   browser: false,
@@ -110,10 +177,19 @@ const VALID_CONFIG_KEYS = [
   'model',
   'planModel',
   'smallModel',
+  'compactModel',
   'visionModel',
+  'fallbackModels',
   'systemPrompt',
   'todo',
   'autoCompact',
+  'compaction',
+  'toolConcurrency',
+  'maxTokens',
+  'maxCostUSD',
+  'verifyCommands',
+  'verifyMaxAttempts',
+  'loopDetection',
   'commit',
   'outputStyle',
   'autoUpdate',
@@ -124,9 +200,11 @@ const VALID_CONFIG_KEYS = [
   'extensions',
   'tools',
 ];
-const ARRAY_CONFIG_KEYS = ['plugins'];
+const ARRAY_CONFIG_KEYS = ['plugins', 'fallbackModels', 'verifyCommands'];
 const OBJECT_CONFIG_KEYS = [
   'mcpServers',
+  'compaction',
+  'loopDetection',
   'commit',
   'provider',
   'extensions',
@@ -137,9 +215,18 @@ const BOOLEAN_CONFIG_KEYS = [
   'quiet',
   'todo',
   'autoCompact',
+  'steering',
+  'coerceToolParams',
   'autoUpdate',
   'browser',
 ];
+const NUMBER_CONFIG_KEYS = [
+  'toolConcurrency',
+  'maxTokens',
+  'maxCostUSD',
+  'verifyMaxAttempts',
+  'temperature',
+];
 export const GLOBAL_ONLY_KEYS = ['desktop'];
 
 function assertGlobalAllowed(global: boolean, key: string) {
@@ -369,6 +456,12 @@ export class ConfigManager {
           newValue = value === 'true';
         }
       }
+      if (NUMBER_CONFIG_KEYS.includes(key)) {
+        newValue = Number(value);
+        if (Number.isNaN(newValue)) {
+          throw new Error(`Config key '${key}' must be a number`);
+        }
+      }
       if (ARRAY_CONFIG_KEYS.includes(key)) {
         newValue = JSON.parse(value);
       }
@@ -24,7 +24,10 @@ export enum TOOL_NAMES {
   BASH_OUTPUT = 'bash_output',
   KILL_BASH = 'kill_bash',
   GREP = 'grep',
+  MULTI_EDIT = 'multi_edit',
+  NOTEBOOK_EDIT = 'notebook_edit',
   ASK_USER_QUESTION = 'AskUserQuestion',
+  TASK = 'task',
 }
 
 export const BASH_EVENTS = {
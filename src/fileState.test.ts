@@ -0,0 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'pathe';
+import { afterEach, beforeEach, expect, test } from 'vitest';
+import { FileStateTracker } from './fileState';
+
+let tmpDir: string;
+let filePath: string;
+let tracker: FileStateTracker;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-state-'));
+  filePath = path.join(tmpDir, 'a.ts');
+  fs.writeFileSync(filePath, 'a1');
+  tracker = new FileStateTracker({
+    filePath: path.join(tmpDir, 'file-states', 'session.json'),
+  });
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('rejects changes to existing files that were not read', () => {
+  expect(() => tracker.assertEditable(filePath)).toThrow('has not been read');
+  expect(() =>
+    tracker.assertEditable(path.join(tmpDir, 'new.ts')),
+  ).not.toThrow();
+  tracker.record(filePath);
+  expect(() => tracker.assertEditable(filePath)).not.toThrow();
+});
+
+test('rejects changes to files modified since they were read', () => {
+  tracker.record(filePath);
+  const later = new Date(Date.now() + 10_000);
+  fs.utimesSync(filePath, later, later);
+  expect(() => tracker.assertEditable(filePath)).not.toThrow();
+
+  fs.writeFileSync(filePath, 'edited in the IDE');
+  fs.utimesSync(filePath, later, new Date(Date.now() + 20_000));
+  expect(() => tracker.assertEditable(filePath)).toThrow(
+    'modified since it was last read',
+  );
+  tracker.record(filePath);
+  expect(() => tracker.assertEditable(filePath)).not.toThrow();
+});
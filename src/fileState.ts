@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'pathe';
+import type { Paths } from './paths';
+import { FileChangedSinceReadError, FileNotReadError } from './utils/error';
+
+type FileState = {
+  mtimeMs: number;
+  hash: string;
+};
+
+export function getFileStatePath(paths: Paths, sessionId: string) {
+  return path.join(paths.globalProjectDir, 'file-states', `${sessionId}.json`);
+}
+
+function hashContent(content: Buffer) {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+/**
+ * Per session record of the files as the agent last saw them, when it read
+ * or wrote them. Changes to existing files are only allowed when the agent
+ * saw their current content, so it never edits a file it didn't read or
+ * overwrites changes made outside of the session since.
+ */
+export class FileStateTracker {
+  filePath: string;
+
+  constructor(opts: { filePath: string }) {
+    this.filePath = opts.filePath;
+  }
+
+  #read(): Record<string, FileState> {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+    } catch {
+      return {};
+    }
+  }
+
+  #write(states: Record<string, FileState>) {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(states), 'utf-8');
+  }
+
+  // Called after the file was read or written by the agent
+  record(filePath: string) {
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+    const states = this.#read();
+    states[filePath] = {
+      mtimeMs: fs.statSync(filePath).mtimeMs,
+      hash: hashContent(fs.readFileSync(filePath)),
+    };
+    this.#write(states);
+  }
+
+  /**
+   * Throw if the file exists and wasn't read, or changed on disk since it
+   * was last read. New files can always be written.
+   */
+  assertEditable(filePath: string) {
+    if (!fs.existsSync(filePath)) {
+      return;
+    }
+    const state = this.#read()[filePath];
+    if (!state) {
+      throw new FileNotReadError(filePath);
+    }
+    // A different mtime with the same content, e.g. after `touch` or a
+    // checkout of the same revision, isn't a change
+    if (
+      fs.statSync(filePath).mtimeMs !== state.mtimeMs &&
+      hashContent(fs.readFileSync(filePath)) !== state.hash
+    ) {
+      throw new FileChangedSinceReadError(filePath);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import { beforeEach, expect, test, vi } from 'vitest';
+import { History } from './history';
+import type { NormalizedMessage } from './message';
+import type { ModelInfo } from './model';
+import { query } from './query';
+import { filterMessages } from './session';
+
+vi.mock('./query', () => ({
+  query: vi.fn(async () => ({ success: true, data: { text: 'summary' } })),
+}));
+
+const model = {
+  model: { id: 'test', limit: { context: 200_000, output: 32_000 } },
+} as ModelInfo;
+
+let uuid = 0;
+
+function createMessage(
+  message: Record<string, any>,
+  messages: NormalizedMessage[],
+): NormalizedMessage {
+  const normalizedMessage = {
+    type: 'message',
+    uuid: String(uuid++),
+    parentUuid: messages[messages.length - 1]?.uuid ?? null,
+    timestamp: new Date().toISOString(),
+    ...message,
+  } as NormalizedMessage;
+  messages.push(normalizedMessage);
+  return normalizedMessage;
+}
+
+// A turn with a prompt, a tool call and its result, and a final answer
+function createTurn(messages: NormalizedMessage[], prompt: string) {
+  createMessage({ role: 'user', content: prompt }, messages);
+  createMessage(
+    {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: prompt, name: 'read', input: {} }],
+      usage: { input_tokens: 190_000, output_tokens: 100 },
+    },
+    messages,
+  );
+  createMessage(
+    {
+      role: 'tool',
+      content: [
+        {
+          type: 'tool-result',
+          toolCallId: prompt,
+          toolName: 'read',
+          input: {},
+          result: { llmContent: 'content' },
+        },
+      ],
+    },
+    messages,
+  );
+  createMessage(
+    {
+      role: 'assistant',
+      content: `answer of ${prompt}`,
+      usage: { input_tokens: 190_000, output_tokens: 100 },
+    },
+    messages,
+  );
+}
+
+function summarizedMessages() {
+  const { messages = [] } = vi.mocked(query).mock.calls[0][0];
+  return messages.map((message) => message.uuid);
+}
+
+beforeEach(() => {
+  vi.mocked(query).mockClear();
+});
+
+test('keeps the recent turns and summarizes the older ones', async () => {
+  const messages: NormalizedMessage[] = [];
+  for (const prompt of ['a', 'b', 'c']) {
+    createTurn(messages, prompt);
+  }
+  const saved: NormalizedMessage[] = [...messages];
+  const history = new History({
+    messages: [...messages],
+    onMessage: async (message) => {
+      saved.push(message);
+    },
+  });
+
+  const result = await history.compress(model, {
+    compaction: { keepRecentTurns: 2 },
+  });
+
+  expect(result).toMatchObject({ compressed: true, keptMessages: 8 });
+  expect(summarizedMessages()).toEqual(
+    messages.slice(0, 4).map((message) => message.uuid),
+  );
+  const [summary, ...kept] = history.messages;
+  expect(summary.parentUuid).toBeNull();
+  expect(summary.uiContent).toContain('kept the last 8 messages');
+  expect(kept.map((message) => message.originalUuid)).toEqual(
+    messages.slice(4).map((message) => message.uuid),
+  );
+  expect(kept[0].parentUuid).toBe(summary.uuid);
+  expect(filterMessages(saved)).toEqual(history.messages);
+  // The usage of the kept messages doesn't trigger another compaction
+  expect(await history.compress(model)).toEqual({ compressed: false });
+});
+
+test('never starts the recent window with tool results', async () => {
+  const messages: NormalizedMessage[] = [];
+  createTurn(messages, 'a');
+  createTurn(messages, 'b');
+  const history = new History({ messages: [...messages] });
+
+  // Only the final answer fits in the token limit, the tool result before
+  // it is summarized with its tool call
+  await history.compress(model, { compaction: { keepRecentTokens: 20 } });
+
+  expect(history.messages.map((message) => message.role)).toEqual([
+    'user',
+    'assistant',
+  ]);
+});
+
+test('summarizes the whole history when no turn is kept', async () => {
+  const messages: NormalizedMessage[] = [];
+  createTurn(messages, 'a');
+  createTurn(messages, 'b');
+  const history = new History({ messages: [...messages] });
+
+  await history.compress(model, { compaction: { keepRecentTurns: 0 } });
+
+  expect(summarizedMessages()).toEqual(messages.map((message) => message.uuid));
+  expect(history.messages).toHaveLength(1);
+  expect(history.messages[0].uiContent).toBe(
+    'Chat history compacted successfully.',
+  );
+});
@@ -3,32 +3,101 @@ import type {
   LanguageModelV2ToolResultPart,
 } from '@ai-sdk/provider';
 import createDebug from 'debug';
-import { COMPACT_MESSAGE, compact } from './compact';
+import type { BudgetSpend } from './budget';
+import {
+  type BeforeCompactResult,
+  type CompactionConfig,
+  compact,
+  getCompactMessage,
+} from './compact';
 import { MIN_TOKEN_THRESHOLD } from './constants';
 import type {
   Message,
   NormalizedMessage,
   ToolResultPart2,
   UserContent,
+  UserMessage,
 } from './message';
 import type { ModelInfo } from './model';
+import {
+  applyClearedToolResults,
+  type ClearedToolResult,
+  findLargestToolResults,
+  findStaleToolResults,
+} from './staleToolResults';
 import { Usage } from './usage';
 import { randomUUID } from './utils/randomUUID';
+import { countTokens } from './utils/tokenCounter';
 
 export type OnMessage = (message: NormalizedMessage) => Promise<void>;
+export type OnToolResultsCleared = (
+  cleared: ClearedToolResult[],
+) => Promise<void>;
+export type OnBeforeCompact = (opts: {
+  messages: NormalizedMessage[];
+}) => Promise<BeforeCompactResult | undefined>;
+export type OnAfterCompact = (summary: string) => Promise<string>;
+export type CompressOpts = {
+  compaction?: CompactionConfig;
+  /**
+   * Model used to generate the summary, the model of the loop by default.
+   */
+  compactModel?: ModelInfo;
+  // The usage of the summary request is added to it
+  budgetSpend?: BudgetSpend;
+  // Relative file paths of the tool calls are resolved against it
+  cwd?: string;
+  /**
+   * Compact even if the last usage is below the threshold, e.g. when the
+   * next prompt is estimated to not fit in the context window.
+   */
+  force?: boolean;
+};
 export type HistoryOpts = {
   messages: NormalizedMessage[];
   onMessage?: OnMessage;
+  onToolResultsCleared?: OnToolResultsCleared;
+  onBeforeCompact?: OnBeforeCompact;
+  onAfterCompact?: OnAfterCompact;
 };
 
 const debug = createDebug('neovate:history');
 
+const DEFAULT_KEEP_RECENT_TURNS = 2;
+const DEFAULT_KEEP_RECENT_TOKENS_RATIO = 0.2;
+
+function isToolResultMessage(message: NormalizedMessage) {
+  if (message.role === 'tool') {
+    return true;
+  }
+  return (
+    message.role === 'user' &&
+    Array.isArray(message.content) &&
+    message.content.some((part: any) => part.type === 'tool_result')
+  );
+}
+
+// The start of a turn, a prompt of the user which is not a note to the model
+function isTurnStart(message: NormalizedMessage) {
+  return (
+    message.role === 'user' &&
+    !isToolResultMessage(message) &&
+    !(message as UserMessage).hidden
+  );
+}
+
 export class History {
   messages: NormalizedMessage[];
   onMessage?: OnMessage;
+  onToolResultsCleared?: OnToolResultsCleared;
+  onBeforeCompact?: OnBeforeCompact;
+  onAfterCompact?: OnAfterCompact;
   constructor(opts: HistoryOpts) {
     this.messages = opts.messages || [];
     this.onMessage = opts.onMessage;
+    this.onToolResultsCleared = opts.onToolResultsCleared;
+    this.onBeforeCompact = opts.onBeforeCompact;
+    this.onAfterCompact = opts.onAfterCompact;
   }
 
   async addMessage(message: Message, uuid?: string): Promise<void> {
@@ -253,8 +322,13 @@ export class History {
     for (let i = this.messages.length - 1; i >= 0; i--) {
       const message = this.messages[i];
 
-      // Record the last assistant message we encounter
-      if (message.role === 'assistant' && !lastAssistantMessage) {
+      // Record the last assistant message we encounter, the usage of the
+      // messages kept by compaction is the one from before the compaction
+      if (
+        message.role === 'assistant' &&
+        !message.originalUuid &&
+        !lastAssistantMessage
+      ) {
         lastAssistantMessage = message;
       }
 
@@ -276,23 +350,113 @@ export class History {
     return Usage.empty();
   }
 
-  async compress(model: ModelInfo) {
+  async #clearToolResults(cleared: ClearedToolResult[]): Promise<number> {
+    if (cleared.length === 0) {
+      return 0;
+    }
+    this.messages = applyClearedToolResults(this.messages, cleared);
+    await this.onToolResultsCleared?.(cleared);
+    const tokens = cleared.reduce((sum, item) => sum + item.tokens, 0);
+    debug(`cleared ${cleared.length} tool results, ${tokens} tokens`);
+    return tokens;
+  }
+
+  /**
+   * Clear the largest tool results until about `tokens` tokens are saved,
+   * returns the number of tokens actually saved.
+   */
+  async trimToolResults(tokens: number): Promise<number> {
+    return this.#clearToolResults(
+      findLargestToolResults(this.messages, tokens),
+    );
+  }
+
+  /**
+   * Index of the first message of the recent window that's kept as is. The
+   * window never starts with tool results so that tool calls and their
+   * results stay together.
+   */
+  #getRecentWindowStart(model: ModelInfo, config: CompactionConfig): number {
+    const maxTurns = config.keepRecentTurns ?? DEFAULT_KEEP_RECENT_TURNS;
+    const maxTokens =
+      config.keepRecentTokens ??
+      Math.floor(model.model.limit.context * DEFAULT_KEEP_RECENT_TOKENS_RATIO);
+    let start = this.messages.length;
+    if (maxTurns <= 0 || maxTokens <= 0) {
+      return start;
+    }
+    let turns = 0;
+    let tokens = 0;
+    // Stop at 1 since at least one message must be summarized
+    for (let i = this.messages.length - 1; i > 0 && turns < maxTurns; i--) {
+      const message = this.messages[i];
+      tokens += countTokens(JSON.stringify(message.content));
+      if (tokens > maxTokens) break;
+      if (isToolResultMessage(message)) continue;
+      if (isTurnStart(message)) turns++;
+      start = i;
+    }
+    return start;
+  }
+
+  /**
+   * Compact the history once it gets close to the context limit of `model`,
+   * or right away with `force`.
+   */
+  async compress(model: ModelInfo, opts: CompressOpts = {}) {
+    const {
+      compaction: config = {},
+      compactModel = model,
+      budgetSpend,
+      force,
+      cwd = process.cwd(),
+    } = opts;
     if (this.messages.length === 0) {
       return { compressed: false };
     }
     const usage = this.#getLastAssistantUsage();
-    const shouldCompress = this.#shouldCompress(model, usage);
-    if (!shouldCompress) {
+    if (!force && !this.#shouldCompress(model, usage)) {
       return { compressed: false };
     }
 
+    // Clearing stale tool results is cheaper than a summary and may be
+    // enough to get under the threshold
+    const clearedTokens = await this.#clearToolResults(
+      findStaleToolResults(this.messages, cwd),
+    );
+    if (clearedTokens > 0 && !force) {
+      const clearedUsage = new Usage({
+        ...usage,
+        promptTokens: Math.max(0, usage.promptTokens - clearedTokens),
+        totalTokens: Math.max(0, usage.totalTokens - clearedTokens),
+      });
+      if (!this.#shouldCompress(model, clearedUsage)) {
+        return { compressed: false, clearedTokens };
+      }
+    }
+
     debug('compressing...');
+    const windowStart = this.#getRecentWindowStart(model, config);
+    const olderMessages = this.messages.slice(0, windowStart);
+    const recentMessages = this.messages.slice(windowStart);
+    const { keep, cancel } = {
+      ...(await this.onBeforeCompact?.({ messages: olderMessages })),
+    };
+    if (cancel) {
+      debug('compaction cancelled by beforeCompact');
+      return { compressed: false };
+    }
     let summary: string | null = null;
     try {
       summary = await compact({
-        messages: this.messages,
-        model,
+        messages: olderMessages,
+        model: compactModel,
+        keep,
+        budgetSpend,
       });
+      if (this.onAfterCompact) {
+        summary = await this.onAfterCompact(summary);
+      }
     } catch (error) {
       debug('Compact failed:', error);
       throw new Error(
@@ -303,21 +467,54 @@ export class History {
       throw new Error('Generated summary is empty');
     }
 
+    const keptTokens = recentMessages.reduce(
+      (sum, message) => sum + countTokens(JSON.stringify(message.content)),
+      0,
+    );
     const summaryMessage: NormalizedMessage = {
       parentUuid: null,
       uuid: randomUUID(),
       role: 'user',
-      content: [{ type: 'text', text: summary }],
-      uiContent: COMPACT_MESSAGE,
+      content: [
+        {
+          type: 'text',
+          text:
+            recentMessages.length > 0
+              ? `${summary}\n\nThe most recent messages of the conversation follow as is.`
+              : summary,
+        },
+      ],
+      uiContent: getCompactMessage({
+        messages: recentMessages.length,
+        tokens: keptTokens,
+      }),
       type: 'message',
       timestamp: new Date().toISOString(),
     };
     this.messages = [summaryMessage];
     await this.onMessage?.(summaryMessage);
-    debug('Generated summary:', summary);
+    // The kept messages are copied under the summary so the compacted path
+    // is also the one restored when the session is resumed
+    for (const message of recentMessages) {
+      const keptMessage: NormalizedMessage = {
+        ...message,
+        parentUuid: this.messages[this.messages.length - 1].uuid,
+        uuid: randomUUID(),
+        originalUuid: message.originalUuid ?? message.uuid,
+      };
+      this.messages.push(keptMessage);
+      await this.onMessage?.(keptMessage);
+    }
+    debug(
+      'Generated summary:',
+      summary,
+      'kept messages:',
+      recentMessages.length,
+    );
     return {
       compressed: true,
       summary,
+      keptMessages: recentMessages.length,
     };
   }
 }
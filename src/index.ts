@@ -61,6 +61,7 @@ type Argv = {
   outputFormat?: string;
   outputStyle?: string;
   planModel?: string;
+  record?: string;
   smallModel?: string;
   visionModel?: string;
   resume?: string;
@@ -98,6 +99,7 @@ async function parseArgs(argv: any) {
       'outputFormat',
       'outputStyle',
       'planModel',
+      'record',
       'smallModel',
       'visionModel',
       'resume',
@@ -140,6 +142,7 @@ Options:
   --output-format <format>      Output format, text, stream-json, json
   --output-style <style>        Output style (name or path)
   --approval-mode <mode>        Tool approval mode, default, autoEdit, yolo
+  --record <file>               Save model responses as a fixture for the replay provider
   --mcp-config <config>         MCP server configuration (JSON string with "mcpServers" object or file path)
   --tools <json>                Tools configuration (JSON object with tool names as keys and boolean values)
 
@@ -155,6 +158,7 @@ Commands:
   log [file]                    View session logs in HTML (optional file path)
   mcp                           Manage MCP servers
   run                           Run a command
+  sessions                      List, search, export and import sessions
   update                        Check for and apply updates
   workspace                     Manage workspaces
     `.trimEnd(),
@@ -337,6 +341,7 @@ export async function runNeovate(opts: {
     argvConfig: {
       model: argv.model,
       planModel: argv.planModel,
+      record: argv.record,
       smallModel: argv.smallModel,
       visionModel: argv.visionModel,
       quiet: argv.quiet,
@@ -371,6 +376,7 @@ export async function runNeovate(opts: {
     'log',
     'run',
     'server',
+    'sessions',
     'update',
     'workspace',
   ];
@@ -410,6 +416,11 @@ export async function runNeovate(opts: {
         await runCommit(context);
         break;
       }
+      case 'sessions': {
+        const { runSessions } = await import('./commands/sessions');
+        await runSessions(context);
+        break;
+      }
       case 'update': {
         const { runUpdate } = await import('./commands/update');
         await runUpdate(context, opts.upgrade);
@@ -3,13 +3,24 @@ import path from 'pathe';
 import type { NormalizedMessage } from './message';
 import { createUserMessage } from './message';
 import type { StreamResult } from './loop';
+import { getActiveLeafUuid, SessionConfigManager } from './session';
+import { SessionIndex } from './sessionIndex';
+import type {
+  ClearedToolResult,
+  ToolResultsClearedEntry,
+} from './staleToolResults';
 
 export class JsonlLogger {
   filePath: string;
   lastUuid: string | null = null;
+  activeLeafUuid: string | undefined;
+  sessionIndex: SessionIndex;
   constructor(opts: { filePath: string }) {
     this.filePath = opts.filePath;
     this.lastUuid = this.getLatestUuid();
+    this.sessionIndex = new SessionIndex({
+      dir: path.dirname(opts.filePath),
+    });
   }
 
   getLatestUuid() {
@@ -17,13 +28,30 @@ export class JsonlLogger {
       return null;
     }
     const file = fs.readFileSync(this.filePath, 'utf8');
-    const lines = file.split('\n').filter(Boolean);
-    const lastLine = lines[lines.length - 1];
-    if (!lastLine) {
-      return null;
+    const entries = file
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+    // The branch picked with `/branches` goes on from its leaf
+    this.activeLeafUuid = getActiveLeafUuid(entries);
+    if (
+      this.activeLeafUuid &&
+      entries.some(
+        (entry) =>
+          entry.type === 'message' && entry.uuid === this.activeLeafUuid,
+      )
+    ) {
+      return this.activeLeafUuid;
     }
-    const message = JSON.parse(lastLine);
-    return message.uuid || null;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const message = entries[i];
+      // Skip messages of sub-agent sidechains and other entries
+      if (message.type !== 'message' || message.isSidechain) {
+        continue;
+      }
+      return message.uuid || null;
+    }
+    return null;
   }
 
   addMessage(opts: { message: NormalizedMessage & { sessionId: string } }) {
@@ -34,9 +62,29 @@ export class JsonlLogger {
     const message = opts.message;
     fs.appendFileSync(this.filePath, JSON.stringify(message) + '\n');
     this.lastUuid = message.uuid;
+    this.sessionIndex.addMessage(this.filePath, message);
+    // The new message is the last one of the active branch now
+    if (this.activeLeafUuid && !message.isSidechain) {
+      const sessionConfigManager = new SessionConfigManager({
+        logPath: this.filePath,
+      });
+      delete sessionConfigManager.config.activeLeafUuid;
+      sessionConfigManager.write();
+      this.activeLeafUuid = undefined;
+    }
     return message;
   }
 
+  addToolResultsCleared(cleared: ClearedToolResult[]) {
+    const entry: ToolResultsClearedEntry = {
+      type: 'tool_results_cleared',
+      timestamp: new Date().toISOString(),
+      cleared,
+    };
+    fs.appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`);
+    this.sessionIndex.touch(this.filePath);
+  }
+
   addUserMessage(content: string, sessionId: string) {
     const message = {
       ...createUserMessage(content, this.lastUuid),
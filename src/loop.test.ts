@@ -0,0 +1,386 @@
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+} from '@ai-sdk/provider';
+import { expect, test } from 'vitest';
+import { z } from 'zod';
+import { runLoop } from './loop';
+import type { ModelInfo } from './model';
+import { createTool, Tools } from './tool';
+
+type Step = LanguageModelV2StreamPart[] | Error;
+
+function createFakeModel(steps: Step[]) {
+  const prompts: LanguageModelV2CallOptions['prompt'][] = [];
+  const model: LanguageModelV2 = {
+    specificationVersion: 'v2',
+    provider: 'fake',
+    modelId: 'fake',
+    supportedUrls: {},
+    async doGenerate() {
+      throw new Error('not implemented');
+    },
+    async doStream(options) {
+      prompts.push(options.prompt);
+      const step = steps.shift();
+      if (!step) {
+        throw new Error('no more steps');
+      }
+      if (step instanceof Error) {
+        throw step;
+      }
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (const chunk of step) controller.enqueue(chunk);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+  return { model, prompts };
+}
+
+function createModelInfo(
+  id: string,
+  model: LanguageModelV2,
+  context = 200000,
+): ModelInfo {
+  return {
+    provider: { id: 'fake' },
+    model: {
+      id,
+      name: id,
+      limit: { context, output: 0 },
+      modalities: { input: ['text'], output: ['text'] },
+    },
+    _mCreator: async () => model,
+  } as unknown as ModelInfo;
+}
+
+const finish: LanguageModelV2StreamPart = {
+  type: 'finish',
+  finishReason: 'stop',
+  usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+};
+
+function textResponse(text: string): LanguageModelV2StreamPart[] {
+  return [
+    { type: 'text-start', id: '1' },
+    { type: 'text-delta', id: '1', delta: text },
+    { type: 'text-end', id: '1' },
+    finish,
+  ];
+}
+
+function toolCallResponse(
+  calls: { id: string; name: string; input: Record<string, any> }[],
+): LanguageModelV2StreamPart[] {
+  return [
+    ...calls.map(
+      (call): LanguageModelV2StreamPart => ({
+        type: 'tool-call',
+        toolCallId: call.id,
+        toolName: call.name,
+        input: JSON.stringify(call.input),
+      }),
+    ),
+    finish,
+  ];
+}
+
+function providerError(message: string) {
+  const error = new Error(message);
+  (error as any).statusCode = 503;
+  return error;
+}
+
+test('retries with the fallback model and tells it about the switch', async () => {
+  const primary = createFakeModel([providerError('Service Unavailable')]);
+  const fallback = createFakeModel([textResponse('done')]);
+  const switches: string[] = [];
+
+  const result = await runLoop({
+    input: 'hello',
+    model: createModelInfo('claude-sonnet-4', primary.model),
+    fallbackModels: [createModelInfo('other', fallback.model)],
+    tools: new Tools([]),
+    cwd: process.cwd(),
+    systemPrompt: 'system',
+    onModelFallback: async ({ from, to }) => {
+      switches.push(`${from.model.id} -> ${to.model.id}`);
+    },
+  });
+
+  expect(result.success).toBe(true);
+  expect(switches).toEqual(['claude-sonnet-4 -> other']);
+  expect(primary.prompts).toHaveLength(1);
+  expect(fallback.prompts).toHaveLength(1);
+  const prompt = JSON.stringify(fallback.prompts[0]);
+  expect(prompt).toContain(
+    '[Switched model from fake/claude-sonnet-4 to fake/other after a provider error: Service Unavailable]',
+  );
+  // The cache settings of the primary model are not sent to the fallback
+  expect(JSON.stringify(primary.prompts[0])).toContain('cacheControl');
+  expect(prompt).not.toContain('cacheControl');
+});
+
+test('fits the prompt in the context window of the fallback model', async () => {
+  const bigText = 'lorem ipsum '.repeat(2000);
+  const primary = createFakeModel([
+    toolCallResponse([{ id: 'call-1', name: 'big', input: {} }]),
+    providerError('Service Unavailable'),
+  ]);
+  const fallback = createFakeModel([textResponse('done')]);
+
+  const result = await runLoop({
+    input: 'hello',
+    model: createModelInfo('primary', primary.model),
+    fallbackModels: [createModelInfo('small', fallback.model, 2000)],
+    tools: new Tools([
+      createTool({
+        name: 'big',
+        description: 'Returns a large result',
+        parameters: z.object({}),
+        execute: () => ({ llmContent: bigText }),
+        approval: { category: 'read' },
+      }),
+    ]),
+    cwd: process.cwd(),
+  });
+
+  expect(result.success).toBe(true);
+  expect(JSON.stringify(primary.prompts[1])).toContain(bigText);
+  const prompt = JSON.stringify(fallback.prompts[0]);
+  expect(prompt).toContain('[Switched model from fake/primary to fake/small');
+  expect(prompt).not.toContain(bigText);
+});
+
+test('warns once about a cost budget for a model without cost info', async () => {
+  const { model } = createFakeModel([
+    toolCallResponse([{ id: 'call-1', name: 'noop', input: {} }]),
+    textResponse('done'),
+  ]);
+  const warnings: string[] = [];
+  const budgetSpend = { tokens: 0, costUSD: 0 };
+
+  const result = await runLoop({
+    input: 'hello',
+    model: createModelInfo('free', model),
+    tools: new Tools([
+      createTool({
+        name: 'noop',
+        description: 'Does nothing',
+        parameters: z.object({}),
+        execute: () => ({ llmContent: 'ok' }),
+        approval: { category: 'read' },
+      }),
+    ]),
+    cwd: process.cwd(),
+    maxCostUSD: 1,
+    budgetSpend,
+    onBudgetWarning: async ({ message }) => {
+      warnings.push(message);
+    },
+  });
+
+  expect(result.success).toBe(true);
+  expect(warnings).toEqual([
+    'fake/free has no cost info, its usage is not counted in the cost budget',
+  ]);
+  expect(budgetSpend).toEqual({ tokens: 4, costUSD: 0, uncountedTokens: 4 });
+});
+
+function getToolResults(prompt: LanguageModelV2CallOptions['prompt']) {
+  return prompt.flatMap((message) =>
+    message.role === 'tool'
+      ? message.content.map((part) => ({
+          toolCallId: part.toolCallId,
+          output: JSON.stringify(part.output),
+        }))
+      : [],
+  );
+}
+
+test('runs read-only tool calls concurrently and write calls alone', async () => {
+  const { model, prompts } = createFakeModel([
+    toolCallResponse([
+      { id: 'a', name: 'read', input: { name: 'a', delay: 30 } },
+      { id: 'b', name: 'read', input: { name: 'b', delay: 10 } },
+      { id: 'w', name: 'write', input: { name: 'w', delay: 5 } },
+      { id: 'c', name: 'read', input: { name: 'c', delay: 5 } },
+    ]),
+    textResponse('done'),
+  ]);
+  const events: string[] = [];
+  const createFakeTool = (name: string, category: 'read' | 'write') =>
+    createTool({
+      name,
+      description: `Fake ${name} tool`,
+      parameters: z.object({ name: z.string(), delay: z.number() }),
+      execute: async (params) => {
+        events.push(`start ${params.name}`);
+        await new Promise((resolve) => setTimeout(resolve, params.delay));
+        events.push(`end ${params.name}`);
+        return { llmContent: `result ${params.name}` };
+      },
+      approval: { category },
+    });
+
+  const result = await runLoop({
+    input: 'hello',
+    model: createModelInfo('fake', model),
+    tools: new Tools([
+      createFakeTool('read', 'read'),
+      createFakeTool('write', 'write'),
+    ]),
+    cwd: process.cwd(),
+  });
+
+  expect(result.success).toBe(true);
+  // The write call waits for the reads before it, the next reads wait for it
+  expect(events).toEqual([
+    'start a',
+    'start b',
+    'end b',
+    'end a',
+    'start w',
+    'end w',
+    'start c',
+    'end c',
+  ]);
+  // The results keep the order of the calls
+  const toolResults = getToolResults(prompts[1]);
+  expect(toolResults.map((toolResult) => toolResult.toolCallId)).toEqual([
+    'a',
+    'b',
+    'w',
+    'c',
+  ]);
+  expect(toolResults[0].output).toContain('result a');
+});
+
+test('keeps the results of the whole batch when a call in it is denied', async () => {
+  const { model } = createFakeModel([
+    toolCallResponse([
+      { id: 'a', name: 'read', input: { name: 'a' } },
+      { id: 'b', name: 'read', input: { name: 'b' } },
+      { id: 'c', name: 'read', input: { name: 'c' } },
+    ]),
+  ]);
+
+  const result = await runLoop({
+    input: 'hello',
+    model: createModelInfo('fake', model),
+    tools: new Tools([
+      createTool({
+        name: 'read',
+        description: 'Fake read tool',
+        parameters: z.object({ name: z.string() }),
+        execute: (params) => ({ llmContent: `result ${params.name}` }),
+        approval: { category: 'read' },
+      }),
+    ]),
+    cwd: process.cwd(),
+    onToolApprove: async (toolUse) => ({ approved: toolUse.callId !== 'b' }),
+  });
+
+  expect(result.success).toBe(false);
+  expect(!result.success && result.error.type).toBe('tool_denied');
+  const messages = (result as any).error.details.history.messages;
+  const toolMessage = messages[messages.length - 1];
+  expect(toolMessage.role).toBe('tool');
+  expect(
+    toolMessage.content.map((part: any) => [
+      part.toolCallId,
+      part.result.llmContent,
+    ]),
+  ).toEqual([
+    ['a', 'result a'],
+    ['b', 'Error: Tool execution was denied by user.'],
+    ['c', 'result c'],
+  ]);
+});
+
+test('sends the feedback of a denied tool call back to the model', async () => {
+  const { model, prompts } = createFakeModel([
+    toolCallResponse([
+      { id: 'w1', name: 'write', input: { content: 'npm i' } },
+      { id: 'w2', name: 'write', input: { content: 'npm test' } },
+    ]),
+    textResponse('Using pnpm instead'),
+  ]);
+  const executed: string[] = [];
+
+  const result = await runLoop({
+    input: 'hello',
+    model: createModelInfo('fake', model),
+    tools: new Tools([
+      createTool({
+        name: 'write',
+        description: 'Fake write tool',
+        parameters: z.object({ content: z.string() }),
+        execute: (params) => {
+          executed.push(params.content);
+          return { llmContent: 'written' };
+        },
+        approval: { category: 'write' },
+      }),
+    ]),
+    cwd: process.cwd(),
+    onToolApprove: async (toolUse) =>
+      toolUse.callId === 'w1'
+        ? { approved: false, denyReason: 'use pnpm' }
+        : { approved: true },
+  });
+
+  expect(result.success).toBe(true);
+  expect(executed).toEqual([]);
+  expect(prompts).toHaveLength(2);
+  const [denied, skipped] = getToolResults(prompts[1]);
+  expect(denied.toolCallId).toBe('w1');
+  expect(denied.output).toContain(
+    'The user denied this tool call and gave the following feedback',
+  );
+  expect(denied.output).toContain('use pnpm');
+  expect(skipped.toolCallId).toBe('w2');
+  expect(skipped.output).toContain(
+    'Tool execution was skipped because the user denied a previous tool call in this turn.',
+  );
+});
+
+test('adds the steering messages after the tool results', async () => {
+  const { model, prompts } = createFakeModel([
+    toolCallResponse([{ id: 'r1', name: 'read', input: {} }]),
+    textResponse('done'),
+  ]);
+  const steering = [['also check b.ts', 'and c.ts']];
+
+  const result = await runLoop({
+    input: 'check a.ts',
+    model: createModelInfo('fake', model),
+    tools: new Tools([
+      createTool({
+        name: 'read',
+        description: 'Fake read tool',
+        parameters: z.object({}),
+        execute: () => ({ llmContent: 'content' }),
+        approval: { category: 'read' },
+      }),
+    ]),
+    cwd: process.cwd(),
+    onSteer: async () => steering.shift() ?? [],
+  });
+
+  expect(result.success).toBe(true);
+  const lastMessages = prompts[1].slice(-2);
+  expect(lastMessages[0].role).toBe('tool');
+  expect(lastMessages[1]).toMatchObject({
+    role: 'user',
+    content: [{ type: 'text', text: 'also check b.ts\nand c.ts' }],
+  });
+  // The queued messages were picked up after the tool results
+  expect(steering).toEqual([]);
+});
@@ -7,12 +7,32 @@ import type {
 } from '@ai-sdk/provider';
 import createDebug from 'debug';
 import { At } from './at';
-import { History, type OnMessage } from './history';
+import {
+  addUsageToSpend,
+  BUDGET_WARNING_RATIO,
+  type BudgetSpend,
+  emptySpend,
+  formatSpend,
+  getBudgetRatio,
+} from './budget';
+import type { CompactionConfig } from './compact';
+import {
+  History,
+  type OnAfterCompact,
+  type OnBeforeCompact,
+  type OnMessage,
+  type OnToolResultsCleared,
+} from './history';
 import type {
   AssistantContent,
   NormalizedMessage,
   ToolUsePart,
+  UserMessage,
 } from './message';
+import {
+  type LoopDetectionConfig,
+  ToolCallLoopDetector,
+} from './loopDetection';
 import type { ModelInfo } from './model';
 import { addPromptCache } from './promptCache';
 import { getThinkingConfig, type ReasoningEffort } from './thinking-config';
@@ -26,12 +46,107 @@ import type {
 import { Usage } from './usage';
 import { randomUUID } from './utils/randomUUID';
 import { safeParseJson } from './utils/safeParseJson';
+import { countPromptTokens } from './utils/tokenCounter';
+import { runVerifyCommands, type VerifyResult } from './verify';
 
 const DEFAULT_MAX_TURNS = 50;
 const DEFAULT_ERROR_RETRY_TURNS = 10;
+const DEFAULT_TOOL_CONCURRENCY = 10;
+const DEFAULT_VERIFY_MAX_ATTEMPTS = 3;
+// Output tokens reserved when checking if a prompt fits in the context window
+const MAX_OUTPUT_RESERVE_TOKENS = 32_000;
+// The prompt is trimmed below this ratio of its estimated size when the
+// provider still rejects it, the tokenizer of the provider counts more
+const CONTEXT_OVERFLOW_RETRY_RATIO = 0.8;
+const TOOL_DENIED_MESSAGE = 'Error: Tool execution was denied by user.';
+const TOOL_SKIPPED_MESSAGE =
+  'Tool execution was skipped because the user denied a previous tool call in this turn.';
 
 const debug = createDebug('neovate:loop');
 
+type ToolCall = {
+  providerMetadata?: any;
+  toolCallId: string;
+  toolName: string;
+  input: string;
+};
+
+// Consecutive read-only tool calls are grouped into one batch so they can run
+// concurrently, other tool calls get a batch of their own to keep their order
+function groupToolCalls(toolCalls: ToolCall[], tools: Tools): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  let readBatch: ToolCall[] | null = null;
+  for (const toolCall of toolCalls) {
+    const isRead = tools.get(toolCall.toolName)?.approval?.category === 'read';
+    if (!isRead) {
+      readBatch = null;
+      batches.push([toolCall]);
+      continue;
+    }
+    if (!readBatch) {
+      readBatch = [];
+      batches.push(readBatch);
+    }
+    readBatch.push(toolCall);
+  }
+  return batches;
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+function getModelName(model: ModelInfo) {
+  return `${model.provider.id}/${model.model.id}`;
+}
+
+// Errors that mean the provider itself is failing (5xx, overloaded, quota
+// exhausted), switching to another model is likely to help
+function isProviderFailureError(error: any): boolean {
+  const statusCode = error?.statusCode;
+  if (typeof statusCode === 'number' && statusCode >= 500) {
+    return true;
+  }
+  const message = String(error?.message || '');
+  return /overloaded|quota|insufficient_quota|credit balance|billing/i.test(
+    message,
+  );
+}
+
+// Errors that mean the prompt doesn't fit in the context window of the model
+function isContextLengthError(error: any): boolean {
+  const message = String(error?.message || '');
+  const code = String(error?.data?.error?.code || '');
+  return /context[_ ]length|context window|maximum context|prompt is too long|input is too long|too many (input )?tokens|exceeds? the (maximum|context)/i.test(
+    `${code} ${message}`,
+  );
+}
+
+function getInputLimit(model: ModelInfo) {
+  const { context, output } = model.model.limit;
+  if (!context) {
+    return Number.POSITIVE_INFINITY;
+  }
+  return (
+    context -
+    Math.min(output || 0, MAX_OUTPUT_RESERVE_TOKENS, Math.floor(context / 4))
+  );
+}
+
 async function exponentialBackoffWithCancellation(
   attempt: number,
   signal?: AbortSignal,
@@ -67,7 +182,13 @@ export type LoopResult =
   | {
       success: false;
       error: {
-        type: 'tool_denied' | 'max_turns_exceeded' | 'api_error' | 'canceled';
+        type:
+          | 'tool_denied'
+          | 'max_turns_exceeded'
+          | 'budget_exceeded'
+          | 'tool_loop_detected'
+          | 'api_error'
+          | 'canceled';
         message: string;
         details?: Record<string, any>;
       };
@@ -113,9 +234,24 @@ type RunLoopOpts = {
   systemPrompt?: string;
   maxTurns?: number;
   errorRetryTurns?: number;
+  /**
+   * Max number of read-only tool calls executed concurrently in one turn.
+   */
+  toolConcurrency?: number;
   signal?: AbortSignal;
   llmsContexts?: string[];
   autoCompact?: boolean;
+  compaction?: CompactionConfig;
+  /**
+   * Model used to summarize the history, the loop model by default.
+   */
+  compactModel?: ModelInfo;
+  /**
+   * Called before the history is summarized, may add facts the summary must
+   * keep or cancel the compaction.
+   */
+  onBeforeCompact?: OnBeforeCompact;
+  onAfterCompact?: OnAfterCompact;
   thinking?: ThinkingConfig;
   temperature?: number;
   responseFormat?: ResponseFormat;
@@ -137,6 +273,52 @@ type RunLoopOpts = {
   }) => Promise<void>;
   onToolApprove?: (toolUse: ToolUse) => Promise<ToolApprovalResult>;
   onMessage?: OnMessage;
+  /**
+   * Called with the stale tool results cleared before compaction, to record
+   * them in the session log.
+   */
+  onToolResultsCleared?: OnToolResultsCleared;
+  /**
+   * Models tried in order when the provider of the current model fails.
+   */
+  fallbackModels?: ModelInfo[];
+  onModelFallback?: (fallback: {
+    from: ModelInfo;
+    to: ModelInfo;
+    error: string;
+  }) => Promise<void>;
+  /**
+   * Token and cost budgets, the loop ends with `budget_exceeded` once the
+   * spend reaches one of them.
+   */
+  maxTokens?: number;
+  maxCostUSD?: number;
+  /**
+   * Spend before this loop, e.g. of previous turns in the session. It's
+   * updated in place so the caller can persist it.
+   */
+  budgetSpend?: BudgetSpend;
+  onBudgetWarning?: (warning: {
+    spend: BudgetSpend;
+    ratio: number;
+    message: string;
+  }) => Promise<void>;
+  /**
+   * Shell commands run when the model stops calling tools, a failing command
+   * sends its output back to the model and the loop continues.
+   */
+  verifyCommands?: string[];
+  verifyMaxAttempts?: number;
+  /**
+   * Called after the tool results of each turn, the returned messages are
+   * added to the history as user messages so the user can steer the turn.
+   */
+  onSteer?: () => Promise<string[]>;
+  /**
+   * Detect the model calling the same tools with the same params over and
+   * over, enabled by default.
+   */
+  loopDetection?: LoopDetectionConfig;
 };
 
 export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
@@ -160,9 +342,42 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
           },
         ],
     onMessage: opts.onMessage,
+    onToolResultsCleared: opts.onToolResultsCleared,
+    onBeforeCompact: opts.onBeforeCompact,
+    onAfterCompact: opts.onAfterCompact,
   });
 
   const maxTurns = opts.maxTurns ?? DEFAULT_MAX_TURNS;
+  // The model can be switched to one of the fallback models when the
+  // provider fails, and it's kept for the rest of this turn
+  let activeModel = opts.model;
+  let fallbackIndex = 0;
+  const budgetLimits = {
+    maxTokens: opts.maxTokens,
+    maxCostUSD: opts.maxCostUSD,
+  };
+  const budgetSpend = opts.budgetSpend ?? emptySpend();
+  // Only warn once per loop, and not at all if the session already passed
+  // the warning ratio before this loop started
+  let budgetWarned =
+    getBudgetRatio(budgetSpend, budgetLimits) >= BUDGET_WARNING_RATIO;
+  const addUsageToBudget = async (usage: Usage) => {
+    const uncountedTokens = budgetSpend.uncountedTokens ?? 0;
+    addUsageToSpend(budgetSpend, usage, activeModel);
+    // Warn once per session about a cost budget that can't be enforced for
+    // the model
+    if (
+      Number(budgetLimits.maxCostUSD) > 0 &&
+      uncountedTokens === 0 &&
+      budgetSpend.uncountedTokens
+    ) {
+      await opts.onBudgetWarning?.({
+        spend: { ...budgetSpend },
+        ratio: getBudgetRatio(budgetSpend, budgetLimits),
+        message: `${getModelName(activeModel)} has no cost info, its usage is not counted in the cost budget`,
+      });
+    }
+  };
   const abortController = new AbortController();
 
   const createCancelError = (): LoopResult => ({
@@ -174,6 +389,20 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
     },
   });
 
+  const verifyCommands = opts.verifyCommands?.filter(Boolean) || [];
+  const verifyMaxAttempts =
+    opts.verifyMaxAttempts ?? DEFAULT_VERIFY_MAX_ATTEMPTS;
+  let verifyAttempts = 0;
+  // Verification only makes sense after tools that may change the workspace
+  let hasWorkspaceChanges = false;
+  let verification: VerifyResult | undefined;
+
+  const loopDetector =
+    opts.loopDetection?.enabled === false
+      ? null
+      : new ToolCallLoopDetector(opts.loopDetection);
+  let loopDetections = 0;
+
   let shouldAtNormalize = true;
   let shouldThinking = true;
   while (true) {
@@ -200,8 +429,28 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
         },
       };
     }
+    if (getBudgetRatio(budgetSpend, budgetLimits) >= 1) {
+      return {
+        success: false,
+        error: {
+          type: 'budget_exceeded',
+          message: `Budget exceeded (${formatSpend(budgetSpend, budgetLimits)})`,
+          details: {
+            turnsCount,
+            history,
+            usage: totalUsage,
+            spend: { ...budgetSpend },
+          },
+        },
+      };
+    }
     if (opts.autoCompact) {
-      const compressed = await history.compress(opts.model);
+      const compressed = await history.compress(activeModel, {
+        compaction: opts.compaction,
+        compactModel: opts.compactModel,
+        budgetSpend,
+        cwd: opts.cwd,
+      });
       if (compressed.compressed) {
         debug('history compressed', compressed);
       }
@@ -219,40 +468,77 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
         content: llmsContext,
       } as LanguageModelV2Message;
     });
-    let prompt: LanguageModelV2Prompt = [
-      systemPromptMessage,
-      ...llmsContextMessages,
-      ...history.toLanguageV2Messages(),
-    ];
-
-    if (shouldAtNormalize) {
-      // add file and directory contents for the last user prompt
-      prompt = At.normalizeLanguageV2Prompt({
-        input: prompt,
-        cwd: opts.cwd,
-      });
-      shouldAtNormalize = false;
-    }
-
-    prompt = addPromptCache(prompt, opts.model);
+    const atNormalize = shouldAtNormalize;
+    shouldAtNormalize = false;
+    // The prompt is built again when the history is trimmed to fit in the
+    // context window
+    const buildPrompt = async () => {
+      let prompt: LanguageModelV2Prompt = [
+        systemPromptMessage,
+        ...llmsContextMessages,
+        ...history.toLanguageV2Messages(),
+      ];
+      if (atNormalize) {
+        // add file and directory contents for the last user prompt, hidden
+        // notes like the one of a model fallback may come after it
+        let index = history.messages.length - 1;
+        while (
+          index >= 0 &&
+          (history.messages[index].role !== 'user' ||
+            (history.messages[index] as UserMessage).hidden)
+        ) {
+          index--;
+        }
+        prompt = await At.normalizeLanguageV2Prompt({
+          input: prompt,
+          cwd: opts.cwd,
+          modalities: activeModel.model.modalities?.input,
+          messageIndex:
+            index >= 0 ? 1 + llmsContextMessages.length + index : undefined,
+        });
+      }
+      return addPromptCache(prompt, activeModel);
+    };
+    const tools = opts.tools.toLanguageV2Tools();
+    let prompt = await buildPrompt();
+    // Clear the largest tool results first since it's cheap, then compact
+    // if that's not enough
+    const fitPrompt = async (limit: number) => {
+      let tokens = countPromptTokens(prompt, tools);
+      if (tokens <= limit) {
+        return;
+      }
+      debug(`prompt of ~${tokens} tokens exceeds the limit of ${limit}`);
+      await history.trimToolResults(tokens - limit);
+      prompt = await buildPrompt();
+      tokens = countPromptTokens(prompt, tools);
+      if (tokens > limit && opts.autoCompact) {
+        await history.compress(activeModel, {
+          compaction: opts.compaction,
+          compactModel: opts.compactModel,
+          budgetSpend,
+          force: true,
+          cwd: opts.cwd,
+        });
+        prompt = await buildPrompt();
+      }
+    };
+    // The usage of the last response doesn't include the new tool results
+    // and attachments, so the size of the prompt is checked before sending
+    await fitPrompt(getInputLimit(activeModel));
+    let contextRecovered = false;
 
     let text = '';
     let reasoning = '';
-    const toolCalls: Array<{
-      providerMetadata?: any;
-      toolCallId: string;
-      toolName: string;
-      input: string;
-    }> = [];
+    const toolCalls: ToolCall[] = [];
 
     const requestId = randomUUID();
-    const m: LanguageModelV2 = await opts.model._mCreator();
-    const tools = opts.tools.toLanguageV2Tools();
+    let m: LanguageModelV2 = await activeModel._mCreator();
 
     // Get thinking config based on model's reasoning capability
     let thinkingConfig: Record<string, any> | undefined = undefined;
     if (shouldThinking && opts.thinking) {
-      thinkingConfig = getThinkingConfig(opts.model, opts.thinking.effort);
+      thinkingConfig = getThinkingConfig(activeModel, opts.thinking.effort);
       shouldThinking = false;
     }
 
@@ -282,7 +568,7 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
         opts.onStreamResult?.({
           requestId,
           prompt,
-          model: opts.model,
+          model: activeModel,
           tools,
           request: result.request,
           response: result.response,
@@ -321,6 +607,7 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
             case 'finish':
               lastUsage = Usage.fromEventUsage(chunk.usage);
               totalUsage.add(lastUsage);
+              await addUsageToBudget(lastUsage);
               if (toolCalls.length === 0 && text.trim() === '') {
                 const error = new Error(
                   'Empty response: no text or tool calls received',
@@ -362,7 +649,7 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
         opts.onStreamResult?.({
           requestId,
           prompt,
-          model: opts.model,
+          model: activeModel,
           tools,
           response: {
             statusCode: error.statusCode,
@@ -377,6 +664,20 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
           },
         });
 
+        if (!contextRecovered && isContextLengthError(error)) {
+          contextRecovered = true;
+          await fitPrompt(
+            Math.floor(
+              countPromptTokens(prompt, tools) * CONTEXT_OVERFLOW_RETRY_RATIO,
+            ),
+          );
+          debug('retry after the context overflowed');
+          text = '';
+          reasoning = '';
+          toolCalls.length = 0;
+          continue;
+        }
+
         if (error.isRetryable && retryCount < errorRetryTurns) {
           retryCount++;
           try {
@@ -387,6 +688,49 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
           continue;
         }
 
+        const fallbackModel = opts.fallbackModels?.[fallbackIndex];
+        if (
+          fallbackModel &&
+          (error.isRetryable || isProviderFailureError(error))
+        ) {
+          fallbackIndex++;
+          const from = activeModel;
+          activeModel = fallbackModel;
+          m = await activeModel._mCreator();
+          if (thinkingConfig && opts.thinking) {
+            thinkingConfig = getThinkingConfig(
+              activeModel,
+              opts.thinking.effort,
+            );
+          }
+          retryCount = 0;
+          // Drop the partial output of the failed model
+          text = '';
+          reasoning = '';
+          toolCalls.length = 0;
+          const reason =
+            error instanceof Error ? error.message : 'Unknown streaming error';
+          debug(
+            `switch model from ${getModelName(from)} to ${getModelName(activeModel)}`,
+            reason,
+          );
+          await history.addMessage({
+            role: 'user',
+            content: `[Switched model from ${getModelName(from)} to ${getModelName(activeModel)} after a provider error: ${reason}]`,
+            hidden: true,
+          });
+          await opts.onModelFallback?.({
+            from,
+            to: activeModel,
+            error: reason,
+          });
+          // Send the note with the cache settings of the new model, in a
+          // prompt that fits in its context window
+          prompt = await buildPrompt();
+          await fitPrompt(getInputLimit(activeModel));
+          continue;
+        }
+
         return {
           success: false,
           error: {
@@ -431,7 +775,18 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
       startTime,
       endTime,
     });
-    const model = `${opts.model.provider.id}/${opts.model.model.id}`;
+    if (!budgetWarned) {
+      const ratio = getBudgetRatio(budgetSpend, budgetLimits);
+      if (ratio >= BUDGET_WARNING_RATIO && ratio < 1) {
+        budgetWarned = true;
+        await opts.onBudgetWarning?.({
+          spend: { ...budgetSpend },
+          ratio,
+          message: `${Math.round(ratio * 100)}% of the budget used (${formatSpend(budgetSpend, budgetLimits)})`,
+        });
+      }
+    }
+    const model = getModelName(activeModel);
     const assistantContent: AssistantContent = [];
     if (reasoning) {
       assistantContent.push({
@@ -490,11 +845,32 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
       requestId,
     );
     if (!toolCalls.length) {
-      break;
+      if (!verifyCommands.length || !hasWorkspaceChanges) {
+        break;
+      }
+      const verifyResult = await runVerifyCommands({
+        commands: verifyCommands,
+        cwd: opts.cwd,
+        signal: opts.signal,
+      });
+      if (opts.signal?.aborted) {
+        return createCancelError();
+      }
+      verification = verifyResult;
+      if (verifyResult.success || verifyAttempts >= verifyMaxAttempts) {
+        break;
+      }
+      verifyAttempts++;
+      debug('verify failed', verifyResult.command, verifyAttempts);
+      await history.addMessage({
+        role: 'user',
+        content: `[Verification failed (attempt ${verifyAttempts}/${verifyMaxAttempts})] The command \`${verifyResult.command}\` failed, fix the problems before finishing:\n\n${verifyResult.output}`,
+        hidden: true,
+      });
+      continue;
     }
 
-    const toolResults: any[] = [];
-    for (const toolCall of toolCalls) {
+    const executeToolCall = async (toolCall: ToolCall) => {
       let toolUse: ToolUse = {
         name: toolCall.toolName,
         params: safeParseJson(toolCall.input),
@@ -505,45 +881,86 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
       }
       let approved = true;
       let updatedParams: ToolParams | undefined = undefined;
+      let denyReason: string | undefined;
 
       if (opts.onToolApprove) {
         const approvalResult = await opts.onToolApprove(toolUse as ToolUse);
         if (typeof approvalResult === 'object') {
           approved = approvalResult.approved;
           updatedParams = approvalResult.params;
+          denyReason = approvalResult.denyReason?.trim() || undefined;
         } else {
           approved = approvalResult;
         }
       }
 
+      let toolResult: ToolResult;
       if (approved) {
         toolCallsCount++;
         if (updatedParams) {
           toolUse.params = { ...toolUse.params, ...updatedParams };
         }
-        let toolResult = await opts.tools.invoke(
+        toolResult = await opts.tools.invoke(
           toolUse.name,
           JSON.stringify(toolUse.params),
+          { toolCallId: toolUse.callId, signal: opts.signal, budgetSpend },
         );
-        if (opts.onToolResult) {
-          toolResult = await opts.onToolResult(toolUse, toolResult, approved);
+        const category = opts.tools.get(toolUse.name)?.approval?.category;
+        if (category === 'write' || category === 'command') {
+          hasWorkspaceChanges = true;
         }
-        toolResults.push({
-          toolCallId: toolUse.callId,
-          toolName: toolUse.name,
-          input: toolUse.params,
-          result: toolResult,
-        });
         // Prevent normal turns from being terminated due to exceeding the limit
         turnsCount--;
+      } else if (denyReason) {
+        toolResult = {
+          llmContent: `The user denied this tool call and gave the following feedback. Do not retry the same call; adjust your approach based on it.\n\n${denyReason}`,
+          returnDisplay: `Denied by user: ${denyReason}`,
+          isError: true,
+        };
       } else {
-        const message = 'Error: Tool execution was denied by user.';
-        let toolResult: ToolResult = {
-          llmContent: message,
+        toolResult = {
+          llmContent: TOOL_DENIED_MESSAGE,
           isError: true,
         };
-        if (opts.onToolResult) {
-          toolResult = await opts.onToolResult(toolUse, toolResult, approved);
+      }
+      if (opts.onToolResult) {
+        toolResult = await opts.onToolResult(toolUse, toolResult, approved);
+      }
+      return { toolUse, toolResult, approved, denyReason };
+    };
+
+    const toolConcurrency = opts.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY;
+    const toolResults: any[] = [];
+    // Once the user denies a call with feedback, the remaining calls of this
+    // turn are skipped and the feedback goes back to the model
+    let deniedWithFeedback = false;
+    for (const batch of groupToolCalls(toolCalls, opts.tools)) {
+      if (deniedWithFeedback) {
+        for (const toolCall of batch) {
+          toolResults.push({
+            toolCallId: toolCall.toolCallId,
+            toolName: toolCall.toolName,
+            input: safeParseJson(toolCall.input),
+            result: {
+              llmContent: TOOL_SKIPPED_MESSAGE,
+              returnDisplay: 'Skipped',
+              isError: true,
+            },
+          });
+        }
+        continue;
+      }
+      const outcomes = await mapWithConcurrency(
+        batch,
+        toolConcurrency,
+        executeToolCall,
+      );
+      // Results are collected in the original call order, the calls of the
+      // batch have all run even when one of them was denied
+      let deniedToolUse: ToolUse | undefined;
+      for (const { toolUse, toolResult, approved, denyReason } of outcomes) {
+        if (approved) {
+          loopDetector?.record(toolUse, toolResult);
         }
         toolResults.push({
           toolCallId: toolUse.callId,
@@ -551,6 +968,13 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
           input: toolUse.params,
           result: toolResult,
         });
+        if (!approved && denyReason) {
+          deniedWithFeedback = true;
+        } else if (!approved) {
+          deniedToolUse ??= toolUse;
+        }
+      }
+      if (deniedToolUse) {
         await history.addMessage({
           role: 'tool',
           content: toolResults.map((tr) => {
@@ -567,9 +991,9 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
           success: false,
           error: {
             type: 'tool_denied',
-            message,
+            message: TOOL_DENIED_MESSAGE,
             details: {
-              toolUse,
+              toolUse: deniedToolUse,
               history,
               usage: totalUsage,
             },
@@ -591,6 +1015,46 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
         }),
       } as any);
     }
+    const detectedLoop = loopDetector?.detect();
+    if (detectedLoop) {
+      loopDetections++;
+      const description =
+        detectedLoop.type === 'repeat'
+          ? `called ${detectedLoop.toolNames[0]} ${detectedLoop.count} times in a row with the same parameters and got the same result`
+          : `alternated between ${detectedLoop.toolNames.join(' and ')} ${detectedLoop.count} times with the same parameters and results`;
+      debug('tool loop detected', detectedLoop);
+      if (loopDetections > 1) {
+        return {
+          success: false,
+          error: {
+            type: 'tool_loop_detected',
+            message: `Stopped because the model is stuck in a loop, it ${description}`,
+            details: {
+              loop: detectedLoop,
+              turnsCount,
+              history,
+              usage: totalUsage,
+            },
+          },
+        };
+      }
+      loopDetector!.reset();
+      await history.addMessage({
+        role: 'user',
+        content: `[System note] You ${description}. Repeating it will not give a different outcome. Stop and rethink: use the information you already have, try a different approach, or explain to the user what is blocking you.`,
+        hidden: true,
+      });
+    }
+    if (opts.onSteer && !opts.signal?.aborted) {
+      const steeringMessages = await opts.onSteer();
+      if (steeringMessages.length) {
+        await history.addMessage({
+          role: 'user',
+          content: steeringMessages.join('\n'),
+          steering: true,
+        });
+      }
+    }
   }
   const duration = Date.now() - startTime;
   return {
@@ -599,6 +1063,7 @@ export async function runLoop(opts: RunLoopOpts): Promise<LoopResult> {
       text: finalText,
       history,
       usage: totalUsage,
+      ...(verification && { verification }),
     },
     metadata: {
       turnsCount,
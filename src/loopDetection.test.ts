@@ -0,0 +1,64 @@
+import { expect, test } from 'vitest';
+import { ToolCallLoopDetector } from './loopDetection';
+
+function call(
+  detector: ToolCallLoopDetector,
+  name: string,
+  params: Record<string, any>,
+  result = 'ok',
+) {
+  detector.record(
+    { name, params, callId: Math.random().toString() },
+    { llmContent: result },
+  );
+}
+
+test('detects identical consecutive calls', () => {
+  const detector = new ToolCallLoopDetector({ maxRepeats: 3 });
+  call(detector, 'read', { file_path: 'a.ts' });
+  call(detector, 'read', { file_path: 'a.ts' });
+  expect(detector.detect()).toBeNull();
+  call(detector, 'read', { file_path: 'a.ts' });
+  expect(detector.detect()).toEqual({
+    type: 'repeat',
+    toolNames: ['read'],
+    count: 3,
+  });
+});
+
+test('ignores param key order and surrounding whitespace', () => {
+  const detector = new ToolCallLoopDetector({ maxRepeats: 2 });
+  call(detector, 'bash', { command: 'ls', timeout: 10 });
+  call(detector, 'bash', { timeout: 10, command: ' ls ' });
+  expect(detector.detect()?.type).toBe('repeat');
+});
+
+test('does not treat calls with different results as a loop', () => {
+  const detector = new ToolCallLoopDetector({ maxRepeats: 2 });
+  call(detector, 'bash', { command: 'git status' }, 'modified: a.ts');
+  call(detector, 'bash', { command: 'git status' }, 'clean');
+  expect(detector.detect()).toBeNull();
+});
+
+test('detects A-B cycles', () => {
+  const detector = new ToolCallLoopDetector({ maxCycles: 2 });
+  call(detector, 'read', { file_path: 'a.ts' });
+  call(detector, 'grep', { pattern: 'foo' });
+  call(detector, 'read', { file_path: 'a.ts' });
+  expect(detector.detect()).toBeNull();
+  call(detector, 'grep', { pattern: 'foo' });
+  expect(detector.detect()).toEqual({
+    type: 'cycle',
+    toolNames: ['read', 'grep'],
+    count: 2,
+  });
+});
+
+test('starts over after reset', () => {
+  const detector = new ToolCallLoopDetector({ maxRepeats: 2 });
+  call(detector, 'read', { file_path: 'a.ts' });
+  call(detector, 'read', { file_path: 'a.ts' });
+  detector.reset();
+  call(detector, 'read', { file_path: 'a.ts' });
+  expect(detector.detect()).toBeNull();
+});
@@ -0,0 +1,121 @@
+import crypto from 'crypto';
+import type { ToolResult, ToolUse } from './tool';
+
+const DEFAULT_MAX_REPEATS = 3;
+const DEFAULT_MAX_CYCLES = 3;
+
+export type LoopDetectionConfig = {
+  enabled?: boolean;
+  /**
+   * Number of identical consecutive tool calls (same name, params and
+   * result) treated as a loop.
+   */
+  maxRepeats?: number;
+  /**
+   * Number of repetitions of an A-B cycle of tool calls treated as a loop.
+   */
+  maxCycles?: number;
+};
+
+export type DetectedLoop = {
+  type: 'repeat' | 'cycle';
+  toolNames: string[];
+  count: number;
+};
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`,
+      );
+    return `{${entries.join(',')}}`;
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value.trim());
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+function hash(value: string) {
+  return crypto.createHash('sha1').update(value).digest('hex');
+}
+
+type Fingerprint = {
+  toolName: string;
+  key: string;
+};
+
+export class ToolCallLoopDetector {
+  private fingerprints: Fingerprint[] = [];
+  private maxRepeats: number;
+  private maxCycles: number;
+
+  constructor(config: LoopDetectionConfig = {}) {
+    this.maxRepeats = Math.max(2, config.maxRepeats ?? DEFAULT_MAX_REPEATS);
+    this.maxCycles = Math.max(2, config.maxCycles ?? DEFAULT_MAX_CYCLES);
+  }
+
+  record(toolUse: ToolUse, toolResult: ToolResult) {
+    const key = hash(
+      [
+        toolUse.name,
+        stableStringify(toolUse.params),
+        stableStringify(toolResult.llmContent),
+      ].join('\0'),
+    );
+    this.fingerprints.push({ toolName: toolUse.name, key });
+    // Only the tail is needed to detect repeats and cycles
+    const keep = Math.max(this.maxRepeats, this.maxCycles * 2);
+    if (this.fingerprints.length > keep) {
+      this.fingerprints.splice(0, this.fingerprints.length - keep);
+    }
+  }
+
+  detect(): DetectedLoop | null {
+    const fingerprints = this.fingerprints;
+    const last = fingerprints[fingerprints.length - 1];
+    if (!last) {
+      return null;
+    }
+
+    let repeats = 0;
+    for (let i = fingerprints.length - 1; i >= 0; i--) {
+      if (fingerprints[i].key !== last.key) break;
+      repeats++;
+    }
+    if (repeats >= this.maxRepeats) {
+      return { type: 'repeat', toolNames: [last.toolName], count: repeats };
+    }
+
+    const previous = fingerprints[fingerprints.length - 2];
+    if (!previous || previous.key === last.key) {
+      return null;
+    }
+    let cycleLength = 0;
+    for (let i = fingerprints.length - 1; i >= 0; i--) {
+      const expected =
+        (fingerprints.length - 1 - i) % 2 === 0 ? last : previous;
+      if (fingerprints[i].key !== expected.key) break;
+      cycleLength++;
+    }
+    const cycles = Math.floor(cycleLength / 2);
+    if (cycles >= this.maxCycles) {
+      return {
+        type: 'cycle',
+        toolNames: [previous.toolName, last.toolName],
+        count: cycles,
+      };
+    }
+    return null;
+  }
+
+  reset() {
+    this.fingerprints = [];
+  }
+}
@@ -57,6 +57,8 @@ export type UserMessage = {
   role: 'user';
   content: UserContent;
   hidden?: boolean;
+  // Sent by the user while the agent was running, injected mid-turn
+  steering?: boolean;
 };
 export type ToolMessage = {
   role: 'user';
@@ -94,6 +96,17 @@ export type NormalizedMessage = Message & {
   uuid: string;
   parentUuid: string | null;
   uiContent?: string;
+  /**
+   * Messages of a sub-agent run, they're linked to the task tool call in the
+   * main conversation and never part of its active path.
+   */
+  isSidechain?: boolean;
+  parentToolUseId?: string;
+  /**
+   * Uuid of the original message, set on the copies of the recent messages
+   * that compaction keeps as is and links to the summary.
+   */
+  originalUuid?: string;
 };
 
 export type SDKSystemMessage = {
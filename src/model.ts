@@ -16,9 +16,11 @@ import {
   createAntigravityProvider,
   GithubProvider,
 } from 'oauth-providers';
+import path from 'pathe';
 import { ConfigManager, type ProviderConfig } from './config';
 import type { Context } from './context';
 import { PluginHookType } from './plugin';
+import { createRecordingModel, createReplayModel } from './replay';
 import { getThinkingConfig } from './thinking-config';
 import { rotateApiKey } from './utils/apiKeyRotation';
 
@@ -1800,6 +1802,47 @@ export const providers: ProvidersMap = {
   },
 };
 
+const replayModel: Omit<Model, 'id' | 'cost'> = {
+  name: 'Replay',
+  attachment: true,
+  reasoning: false,
+  temperature: true,
+  tool_call: true,
+  knowledge: '',
+  release_date: '',
+  last_updated: '',
+  modalities: { input: ['text', 'image'], output: ['text'] },
+  open_weights: false,
+  limit: { context: 200000, output: 64000 },
+};
+
+// Replays the fixture recorded with --record from the REPLAY_FIXTURE env or
+// the baseURL option of the provider, e.g. in offline tests
+const replayProvider: Provider = {
+  id: 'replay',
+  name: 'Replay',
+  env: [],
+  apiEnv: ['REPLAY_FIXTURE'],
+  doc: 'https://neovateai.dev',
+  models: {
+    // match requests by their order
+    order: replayModel,
+    // match requests by the hash of their prompts
+    hash: replayModel,
+  },
+  createModel(name, provider) {
+    const fixturePath = getProviderBaseURL(provider);
+    assert(
+      fixturePath,
+      'REPLAY_FIXTURE or the baseURL option is required for the replay provider',
+    );
+    return createReplayModel({
+      fixturePath,
+      match: name === 'hash' ? 'hash' : 'order',
+    });
+  },
+};
+
 // value format: provider/model
 export type ModelAlias = Record<string, string>;
 export const modelAlias: ModelAlias = {
@@ -1821,7 +1864,8 @@ export const modelAlias: ModelAlias = {
 
 export type ModelInfo = {
   provider: Provider;
-  model: Omit<Model, 'cost'>;
+  // cost is only available when the provider config or a plugin provides it
+  model: Omit<Model, 'cost'> & { cost?: ModelCost };
   // m: LanguageModelV2;
   thinkingConfig?: Record<string, any>;
   _mCreator: () => Promise<LanguageModelV2>;
@@ -1892,6 +1936,24 @@ function applyGlobalProxyToProviders(
   );
 }
 
+/**
+ * Save the requests of the model as replay fixtures with --record. Every
+ * model that sends requests during a turn is wrapped, the conversation,
+ * fallback, compaction and sub-agent ones, so that they replay in order.
+ */
+export function withRecording(model: ModelInfo, context: Context): ModelInfo {
+  if (!context.config.record) {
+    return model;
+  }
+  const fixturePath = path.resolve(context.cwd, context.config.record);
+  const createModel = model._mCreator;
+  return {
+    ...model,
+    _mCreator: async () =>
+      createRecordingModel(await createModel(), fixturePath),
+  };
+}
+
 export async function resolveModelWithContext(
   name: string | null,
   context: Context,
@@ -1905,7 +1967,7 @@ export async function resolveModelWithContext(
         createOpenAI,
       },
     ],
-    memo: providers,
+    memo: { ...providers, replay: replayProvider },
     type: PluginHookType.SeriesLast,
   });
 
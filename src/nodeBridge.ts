@@ -1,5 +1,15 @@
 import z from 'zod';
-import { compact } from './compact';
+import { emptySpend, mergeSpend } from './budget';
+import {
+  CheckpointStore,
+  getCheckpointDir,
+  getRewindPoints,
+} from './checkpoint';
+import {
+  applyAfterCompactHook,
+  applyBeforeCompactHook,
+  compact,
+} from './compact';
 import { ConfigManager, type McpServerConfig } from './config';
 import { CANCELED_MESSAGE_TEXT } from './constants';
 import { Context } from './context';
@@ -12,12 +22,21 @@ import {
   type Provider,
   type ProvidersMap,
   resolveModelWithContext,
+  withRecording,
 } from './model';
 import { OutputStyleManager } from './outputStyle';
 import { PluginHookType } from './plugin';
 import { Project } from './project';
 import { query } from './query';
-import { SessionConfigManager } from './session';
+import {
+  getSessionBranches,
+  readSessionLogEntries,
+  SessionConfigManager,
+} from './session';
+import { writeSessionExport } from './sessionExport';
+import { normalizeTags } from './sessionIndex';
+import { searchSessions } from './sessionSearch';
+import { updateSessionTitle } from './sessionTitle';
 import { SlashCommandManager } from './slashCommand';
 import type { ApprovalCategory, ToolUse } from './tool';
 import { getFiles } from './utils/files';
@@ -1494,7 +1513,9 @@ ${diff}
           const sessionConfigManager = new SessionConfigManager({
             logPath: context.paths.getSessionLogPath(data.sessionId),
           });
-          sessionSummary = sessionConfigManager.config.summary;
+          sessionSummary =
+            sessionConfigManager.config.summary ||
+            sessionConfigManager.config.title;
           pastedTextMap = sessionConfigManager.config.pastedTextMap || {};
           pastedImageMap = sessionConfigManager.config.pastedImageMap || {};
         } catch {
@@ -1600,6 +1621,7 @@ ${diff}
       this.abortControllers.set(key, abortController);
 
       const fn = data.planMode ? project.plan : project.send;
+      let compacted = false;
       const result = await fn.call(project, message, {
         attachments,
         model: resolvedModel,
@@ -1639,6 +1661,9 @@ ${diff}
             category,
           });
 
+          if (result.denyReason) {
+            return { approved: false, denyReason: result.denyReason };
+          }
           return result.params
             ? { approved: result.approved, params: result.params }
             : result.approved;
@@ -1650,10 +1675,81 @@ ${diff}
             cwd,
           });
         },
+        onModelFallback: async ({ from, to, error }) => {
+          await this.messageBus.emitEvent('modelFallback', {
+            from: `${from.provider.id}/${from.model.id}`,
+            to: `${to.provider.id}/${to.model.id}`,
+            error,
+            sessionId,
+            cwd,
+          });
+        },
+        onBudgetWarning: async ({ spend, ratio, message }) => {
+          await this.messageBus.emitEvent('budgetWarning', {
+            spend,
+            ratio,
+            message,
+            sessionId,
+            cwd,
+          });
+        },
+        onCompact: async ({ status }) => {
+          if (status === 'done') {
+            compacted = true;
+          }
+          await this.messageBus.emitEvent('compact', {
+            status,
+            sessionId,
+            cwd,
+          });
+        },
+        onSteer: context.config.steering
+          ? async () => {
+              try {
+                const result = await this.messageBus.request(
+                  'steeringMessages',
+                  { sessionId, cwd },
+                );
+                return result.messages || [];
+              } catch {
+                // Clients without steering support keep the queue until the
+                // turn ends
+                return [];
+              }
+            }
+          : undefined,
         signal: abortController.signal,
       });
       this.abortControllers.delete(key);
 
+      // Title the session after its first turn and again after a compaction,
+      // without holding the response
+      const sessionConfig = new SessionConfigManager({
+        logPath: context.paths.getSessionLogPath(project.session.id),
+      }).config;
+      if (
+        result.success &&
+        ((!sessionConfig.title && !sessionConfig.titleAttempted) || compacted)
+      ) {
+        updateSessionTitle({
+          context,
+          sessionId: project.session.id,
+          messages: project.session.history.messages,
+        })
+          .then(async (title) => {
+            if (title) {
+              await this.messageBus.emitEvent('session.title', {
+                title,
+                sessionId: project.session.id,
+                cwd,
+              });
+            }
+          })
+          .catch(() => {
+            // The session keeps the summary of its first message
+          });
+      }
+
       // Emit session.done event for real-time streaming support
       this.messageBus.emitEvent('session.done', {
         sessionId,
@@ -1778,27 +1874,166 @@ ${diff}
     });
 
     this.messageBus.registerHandler('session.compact', async (data) => {
-      const { cwd, messages, sessionId } = data;
+      const { cwd, messages, sessionId, instructions } = data;
       const context = await this.getContext(cwd);
-      const m = (
-        await this.messageBus.messageHandlers.get('session.getModel')?.({
-          cwd,
-          sessionId,
-        })
-      )?.data.model;
-      const model = (await resolveModelWithContext(m, context)).model!;
+      const m =
+        context.config.compactModel ||
+        context.config.smallModel ||
+        (
+          await this.messageBus.messageHandlers.get('session.getModel')?.({
+            cwd,
+            sessionId,
+          })
+        )?.data.model;
+      const model = withRecording(
+        (await resolveModelWithContext(m, context)).model!,
+        context,
+      );
+      const { keep, cancel } = await applyBeforeCompactHook(context, {
+        sessionId,
+        messages,
+        trigger: 'manual',
+        instructions,
+      });
+      if (cancel) {
+        return {
+          success: false,
+          error: 'Compaction was cancelled by a plugin',
+        };
+      }
+      const spend = emptySpend();
       const summary = await compact({
         messages,
         model,
+        instructions,
+        keep,
+        budgetSpend: spend,
+      });
+      const sessionConfigManager = new SessionConfigManager({
+        logPath: context.paths.getSessionLogPath(sessionId),
+      });
+      sessionConfigManager.config.spend = mergeSpend(
+        sessionConfigManager.config.spend,
+        emptySpend(),
+        spend,
+      );
+      sessionConfigManager.write();
+      return {
+        success: true,
+        data: {
+          summary: await applyAfterCompactHook(context, summary, {
+            sessionId,
+            trigger: 'manual',
+          }),
+        },
+      };
+    });
+
+    this.messageBus.registerHandler('session.branches.list', async (data) => {
+      const { cwd, sessionId } = data;
+      const context = await this.getContext(cwd);
+      const branches = getSessionBranches(
+        readSessionLogEntries(context.paths.getSessionLogPath(sessionId)),
+      );
+      return {
+        success: true,
+        data: {
+          branches,
+        },
+      };
+    });
+
+    this.messageBus.registerHandler('session.branches.switch', async (data) => {
+      const { cwd, sessionId, leafUuid } = data;
+      const context = await this.getContext(cwd);
+      const logFile = context.paths.getSessionLogPath(sessionId);
+      const branches = getSessionBranches(readSessionLogEntries(logFile));
+      if (!branches.some((branch) => branch.leafUuid === leafUuid)) {
+        return {
+          success: false,
+          error: `Branch ${leafUuid} not found`,
+        };
+      }
+      const sessionConfigManager = new SessionConfigManager({
+        logPath: logFile,
       });
+      sessionConfigManager.config.activeLeafUuid = leafUuid;
+      sessionConfigManager.write();
       return {
         success: true,
         data: {
-          summary,
+          logFile,
         },
       };
     });
 
+    this.messageBus.registerHandler(
+      'session.checkpoints.list',
+      async (data) => {
+        const { cwd, sessionId } = data;
+        const context = await this.getContext(cwd);
+        const { loadSessionMessages } = await import('./session');
+        const messages = loadSessionMessages({
+          logPath: context.paths.getSessionLogPath(sessionId),
+        });
+        const store = new CheckpointStore({
+          dir: getCheckpointDir(context.paths, sessionId),
+        });
+        return {
+          success: true,
+          data: {
+            points: getRewindPoints(messages, store),
+          },
+        };
+      },
+    );
+
+    this.messageBus.registerHandler('session.rewindCode', async (data) => {
+      const { cwd, sessionId, messageUuid } = data;
+      const context = await this.getContext(cwd);
+      const store = new CheckpointStore({
+        dir: getCheckpointDir(context.paths, sessionId),
+      });
+      try {
+        return {
+          success: true,
+          data: {
+            restoredFiles: store.restoreFiles(messageUuid),
+          },
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+    });
+
+    this.messageBus.registerHandler('session.export', async (data) => {
+      const { cwd, sessionId, format, output } = data;
+      const context = await this.getContext(cwd);
+      try {
+        const filePath = await writeSessionExport({
+          paths: context.paths,
+          sessionId,
+          format,
+          cwd,
+          output,
+        });
+        return {
+          success: true,
+          data: {
+            filePath,
+          },
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+    });
+
     this.messageBus.registerHandler(
       'session.config.setApprovalMode',
       async (data) => {
@@ -1849,6 +2084,22 @@ ${diff}
       },
     );
 
+    this.messageBus.registerHandler('session.config.setTags', async (data) => {
+      const { cwd, sessionId, tags } = data;
+      const context = await this.getContext(cwd);
+      const sessionConfigManager = new SessionConfigManager({
+        logPath: context.paths.getSessionLogPath(sessionId),
+      });
+      sessionConfigManager.config.tags = normalizeTags(tags);
+      sessionConfigManager.write();
+      return {
+        success: true,
+        data: {
+          tags: sessionConfigManager.config.tags,
+        },
+      };
+    });
+
     this.messageBus.registerHandler(
       'session.config.setPastedTextMap',
       async (data) => {
@@ -1986,9 +2237,45 @@ ${diff}
     //////////////////////////////////////////////
     // sessions
     this.messageBus.registerHandler('sessions.list', async (data) => {
+      const { cwd, offset, limit, tags } = data;
+      const context = await this.getContext(cwd);
+      const { sessions, total } = context.paths.listSessions({
+        offset,
+        limit,
+        tags,
+      });
+      return {
+        success: true,
+        data: {
+          sessions,
+          total,
+        },
+      };
+    });
+
+    this.messageBus.registerHandler('sessions.rebuildIndex', async (data) => {
       const { cwd } = data;
       const context = await this.getContext(cwd);
-      const sessions = context.paths.getAllSessions();
+      const total = context.paths.getSessionIndex().rebuild();
+      return {
+        success: true,
+        data: {
+          total,
+        },
+      };
+    });
+
+    this.messageBus.registerHandler('sessions.search', async (data) => {
+      const { cwd, query, since, until, model, tags, limit } = data;
+      const context = await this.getContext(cwd);
+      const sessions = searchSessions(context.paths, {
+        query,
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined,
+        model,
+        tags,
+        limit,
+      });
       return {
         success: true,
         data: {
@@ -5,10 +5,13 @@
  * @module nodeBridge.types
  */
 
+import type { RestoredFile, RewindPoint } from './checkpoint';
 import type { ApprovalMode, McpServerConfig } from './config';
 import type { ResponseFormat, ThinkingConfig } from './loop';
 import type { ImagePart, Message, NormalizedMessage } from './message';
 import type { ModelInfo, ProvidersMap } from './model';
+import type { SessionBranch } from './session';
+import type { SessionExportFormat } from './sessionExport';
 import type { ApprovalCategory, ToolUse } from './tool';
 
 // ============================================================================
@@ -531,14 +534,97 @@ type SessionCompactInput = {
   cwd: string;
   sessionId: string;
   messages: NormalizedMessage[];
+  // What the summary should focus on, from `/compact <instructions>`
+  instructions?: string;
 };
-type SessionCompactOutput = {
+type SessionCompactOutput =
+  | {
+      success: true;
+      data: {
+        summary: string;
+      };
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+type SessionCheckpointsListInput = {
+  cwd: string;
+  sessionId: string;
+};
+type SessionCheckpointsListOutput = {
   success: boolean;
   data: {
-    summary: string;
+    points: RewindPoint[];
+  };
+};
+
+type SessionRewindCodeInput = {
+  cwd: string;
+  sessionId: string;
+  // User message to restore the files to
+  messageUuid: string;
+};
+type SessionRewindCodeOutput =
+  | {
+      success: true;
+      data: {
+        restoredFiles: RestoredFile[];
+      };
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+type SessionExportInput = {
+  cwd: string;
+  sessionId: string;
+  format: SessionExportFormat;
+  // Relative to cwd, `session-<id>.<format>` by default
+  output?: string;
+};
+type SessionExportOutput =
+  | {
+      success: true;
+      data: {
+        filePath: string;
+      };
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+type SessionBranchesListInput = {
+  cwd: string;
+  sessionId: string;
+};
+type SessionBranchesListOutput = {
+  success: boolean;
+  data: {
+    branches: SessionBranch[];
   };
 };
 
+type SessionBranchesSwitchInput = {
+  cwd: string;
+  sessionId: string;
+  leafUuid: string;
+};
+type SessionBranchesSwitchOutput =
+  | {
+      success: true;
+      data: {
+        logFile: string;
+      };
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
 type SessionConfigSetApprovalModeInput = {
   cwd: string;
   sessionId: string;
@@ -557,6 +643,19 @@ type SessionConfigSetSummaryInput = {
   summary: string;
 };
 
+type SessionConfigSetTagsInput = {
+  cwd: string;
+  sessionId: string;
+  tags: string[];
+};
+type SessionConfigSetTagsOutput = {
+  success: boolean;
+  data: {
+    // The tags as saved, without `#` and duplicates
+    tags: string[];
+  };
+};
+
 type SessionConfigSetPastedTextMapInput = {
   cwd: string;
   sessionId: string;
@@ -623,6 +722,11 @@ type SessionConfigRemoveInput = {
 
 type SessionsListInput = {
   cwd: string;
+  offset?: number;
+  // 50 by default
+  limit?: number;
+  // Only sessions with all these tags
+  tags?: string[];
 };
 type SessionsListOutput = {
   success: boolean;
@@ -633,6 +737,51 @@ type SessionsListOutput = {
       created: Date;
       messageCount: number;
       summary: string;
+      tags?: string[];
+      model?: string;
+      costUSD?: number;
+    }>;
+    // Number of sessions of the project, for pagination
+    total: number;
+  };
+};
+
+type SessionsRebuildIndexInput = {
+  cwd: string;
+};
+type SessionsRebuildIndexOutput = {
+  success: boolean;
+  data: {
+    total: number;
+  };
+};
+
+type SessionsSearchInput = {
+  cwd: string;
+  query: string;
+  // ISO dates, only sessions modified in this range
+  since?: string;
+  until?: string;
+  model?: string;
+  // Only sessions with all these tags
+  tags?: string[];
+  limit?: number;
+};
+type SessionsSearchOutput = {
+  success: boolean;
+  data: {
+    sessions: Array<{
+      sessionId: string;
+      modified: Date;
+      created: Date;
+      messageCount: number;
+      summary: string;
+      tags?: string[];
+      matches: Array<{
+        kind: 'user' | 'assistant' | 'tool' | 'file' | 'tag';
+        snippet: string;
+      }>;
+      score: number;
     }>;
   };
 };
@@ -821,6 +970,16 @@ type ToolApprovalInput = {
 type ToolApprovalOutput = {
   approved: boolean;
   params?: Record<string, unknown>;
+  denyReason?: string;
+};
+
+type SteeringMessagesInput = {
+  sessionId: string;
+  cwd: string;
+};
+
+type SteeringMessagesOutput = {
+  messages: string[];
 };
 
 // ============================================================================
@@ -946,6 +1105,26 @@ export type HandlerMap = {
     input: SessionCompactInput;
     output: SessionCompactOutput;
   };
+  'session.branches.list': {
+    input: SessionBranchesListInput;
+    output: SessionBranchesListOutput;
+  };
+  'session.branches.switch': {
+    input: SessionBranchesSwitchInput;
+    output: SessionBranchesSwitchOutput;
+  };
+  'session.checkpoints.list': {
+    input: SessionCheckpointsListInput;
+    output: SessionCheckpointsListOutput;
+  };
+  'session.rewindCode': {
+    input: SessionRewindCodeInput;
+    output: SessionRewindCodeOutput;
+  };
+  'session.export': {
+    input: SessionExportInput;
+    output: SessionExportOutput;
+  };
   'session.config.setApprovalMode': {
     input: SessionConfigSetApprovalModeInput;
     output: SuccessResponse;
@@ -958,6 +1137,10 @@ export type HandlerMap = {
     input: SessionConfigSetSummaryInput;
     output: SuccessResponse;
   };
+  'session.config.setTags': {
+    input: SessionConfigSetTagsInput;
+    output: SessionConfigSetTagsOutput;
+  };
   'session.config.setPastedTextMap': {
     input: SessionConfigSetPastedTextMapInput;
     output: SuccessResponse;
@@ -993,6 +1176,14 @@ export type HandlerMap = {
 
   // Sessions handlers
   'sessions.list': { input: SessionsListInput; output: SessionsListOutput };
+  'sessions.rebuildIndex': {
+    input: SessionsRebuildIndexInput;
+    output: SessionsRebuildIndexOutput;
+  };
+  'sessions.search': {
+    input: SessionsSearchInput;
+    output: SessionsSearchOutput;
+  };
   'sessions.resume': {
     input: SessionsResumeInput;
     output: SessionsResumeOutput;
@@ -1043,6 +1234,10 @@ export type HandlerMap = {
 
   // UI Bridge handlers
   toolApproval: { input: ToolApprovalInput; output: ToolApprovalOutput };
+  steeringMessages: {
+    input: SteeringMessagesInput;
+    output: SteeringMessagesOutput;
+  };
 };
 
 // ============================================================================
@@ -1,21 +1,16 @@
 import fs from 'fs';
 import os from 'os';
 import path from 'pathe';
-import type { SessionConfig } from './session';
+import { readSessionIndexEntry, SessionIndex } from './sessionIndex';
 
-interface ConfigLogEntry {
-  type: 'config';
-  config: SessionConfig;
-}
-
-interface MessageLogEntry {
-  type: 'message';
-  role: string;
-  content: string | any[];
-  [key: string]: any;
-}
-
-type LogEntry = ConfigLogEntry | MessageLogEntry;
+export type SessionInfo = {
+  sessionId: string;
+  modified: Date;
+  created: Date;
+  messageCount: number;
+  summary: string;
+  tags?: string[];
+};
 
 export function getGlobalDataPath(globalDir: string): string {
   return path.join(globalDir, 'data.json');
@@ -67,55 +62,33 @@ export class Paths {
     return latestSession.sessionId;
   }
 
-  getAllSessions() {
+  getAllSessionIds() {
     if (!fs.existsSync(this.globalProjectDir)) {
       return [];
     }
-    const jsonlFiles = fs
+    return fs
       .readdirSync(this.globalProjectDir)
       .filter((file) => file.endsWith('.jsonl'))
-      .map((file) => {
-        const filePath = path.join(this.globalProjectDir, file);
-        const stats = fs.statSync(filePath);
-        const sessionId = path.basename(file, '.jsonl');
+      .map((file) => path.basename(file, '.jsonl'));
+  }
 
-        // Read message count and summary
-        let messageCount = 0;
-        let summary = '';
-        try {
-          const content = fs.readFileSync(filePath, 'utf-8');
-          const lines = content.split('\n').filter(Boolean);
-          messageCount = lines.length;
+  getSessionInfo(sessionId: string): SessionInfo {
+    return readSessionIndexEntry(this.getSessionLogPath(sessionId));
+  }
 
-          // Extract summary: prioritize config.summary, fallback to first user message
-          if (lines.length > 0) {
-            try {
-              const firstEntry: LogEntry = JSON.parse(lines[0]);
-              if (firstEntry.type === 'config' && firstEntry.config.summary) {
-                summary = firstEntry.config.summary;
-              } else {
-                summary = extractFirstUserMessageSummary(lines);
-              }
-            } catch (e) {
-              summary = extractFirstUserMessageSummary(lines);
-            }
-          }
-        } catch (e) {
-          // ignore read error, message count is 0
-        }
+  getSessionIndex() {
+    return new SessionIndex({ dir: this.globalProjectDir });
+  }
 
-        return {
-          sessionId,
-          modified: stats.mtime,
-          created: stats.birthtime,
-          messageCount,
-          summary: normalizeSummary(summary),
-        };
-      })
-      .sort((a, b) => b.modified.getTime() - a.modified.getTime())
-      .slice(0, 50);
+  listSessions(
+    opts: { offset?: number; limit?: number; tags?: string[] } = {},
+  ) {
+    return this.getSessionIndex().list(opts);
+  }
 
-    return jsonlFiles;
+  // Every session, unlike listSessions which returns a page
+  getAllSessions() {
+    return this.listSessions({ limit: Number.POSITIVE_INFINITY }).sessions;
   }
 
   getGlobalDataPath() {
@@ -123,33 +96,6 @@ export class Paths {
   }
 }
 
-function normalizeSummary(summary: string): string {
-  if (!summary) return '';
-  return summary
-    .replace(/\r\n|\r|\n/g, ' ') // Replace all line breaks with spaces
-    .replace(/\s+/g, ' ') // Merge consecutive whitespace characters into single space
-    .trim(); // Remove leading and trailing whitespace
-}
-
-function extractFirstUserMessageSummary(lines: string[]): string {
-  for (const line of lines) {
-    try {
-      const entry: LogEntry = JSON.parse(line);
-      if (
-        entry.type === 'message' &&
-        'role' in entry &&
-        entry.role === 'user' &&
-        typeof entry.content === 'string'
-      ) {
-        return entry.content.length > 50
-          ? entry.content.slice(0, 50) + '...'
-          : entry.content;
-      }
-    } catch (e) {}
-  }
-  return '';
-}
-
 function formatPath(from: string) {
   return from
     .replace(/^\/+|\/+$/g, '') // Remove leading/trailing slashes
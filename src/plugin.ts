@@ -1,9 +1,11 @@
 import type { OpenAIProvider } from '@ai-sdk/openai';
 import type { LanguageModelV2 } from '@openrouter/ai-sdk-provider';
 import defu from 'defu';
+import type { BeforeCompactResult, CompactTrigger } from './compact';
 import type { Config } from './config';
 import type { Context, ContextCreateOpts } from './context';
 import type { LoopResult } from './loop';
+import type { NormalizedMessage } from './message';
 import type { ModelAlias, ModelMap, Provider, ProvidersMap } from './model';
 import type { OutputStyle } from './outputStyle';
 import type { SlashCommand } from './slash-commands/types';
@@ -234,6 +236,24 @@ export type Plugin = {
     },
   ) => Promise<void> | void;
 
+  beforeCompact?: (
+    this: PluginContext,
+    opts: {
+      sessionId: string;
+      messages: NormalizedMessage[];
+      trigger: CompactTrigger;
+      instructions?: string;
+    },
+  ) =>
+    | Promise<BeforeCompactResult | undefined>
+    | BeforeCompactResult
+    | undefined;
+  afterCompact?: (
+    this: PluginContext,
+    summary: string,
+    opts: { sessionId: string; trigger: CompactTrigger },
+  ) => Promise<string> | string;
+
   // slash commands
   // /status
   status?: (this: PluginContext) => Promise<Status> | Status;
@@ -1,9 +1,20 @@
+import { type BudgetSpend, emptySpend, mergeSpend } from './budget';
+import { CheckpointStore, getCheckpointDir } from './checkpoint';
+import {
+  applyAfterCompactHook,
+  applyBeforeCompactHook,
+  type CompactStatus,
+} from './compact';
 import type { Context } from './context';
 import { JsonlLogger, RequestLogger } from './jsonl';
 import { LlmsContext } from './llmsContext';
 import { runLoop, type StreamResult, type ThinkingConfig } from './loop';
 import type { ImagePart, NormalizedMessage, UserContent } from './message';
-import { resolveModelWithContext } from './model';
+import {
+  type ModelInfo,
+  resolveModelWithContext,
+  withRecording,
+} from './model';
 import { OutputFormat } from './outputFormat';
 import { OutputStyleManager } from './outputStyle';
 import { generatePlanSystemPrompt } from './planSystemPrompt';
@@ -44,6 +55,18 @@ export class Project {
       onTextDelta?: (text: string) => Promise<void>;
       onChunk?: (chunk: any, requestId: string) => Promise<void>;
       onStreamResult?: (result: StreamResult) => Promise<void>;
+      onModelFallback?: (fallback: {
+        from: ModelInfo;
+        to: ModelInfo;
+        error: string;
+      }) => Promise<void>;
+      onBudgetWarning?: (warning: {
+        spend: BudgetSpend;
+        ratio: number;
+        message: string;
+      }) => Promise<void>;
+      onSteer?: () => Promise<string[]>;
+      onCompact?: (event: { status: CompactStatus }) => Promise<void>;
       signal?: AbortSignal;
       attachments?: ImagePart[];
       parentUuid?: string;
@@ -95,6 +118,18 @@ export class Project {
       onTextDelta?: (text: string) => Promise<void>;
       onChunk?: (chunk: any, requestId: string) => Promise<void>;
       onStreamResult?: (result: StreamResult) => Promise<void>;
+      onModelFallback?: (fallback: {
+        from: ModelInfo;
+        to: ModelInfo;
+        error: string;
+      }) => Promise<void>;
+      onBudgetWarning?: (warning: {
+        spend: BudgetSpend;
+        ratio: number;
+        message: string;
+      }) => Promise<void>;
+      onSteer?: () => Promise<string[]>;
+      onCompact?: (event: { status: CompactStatus }) => Promise<void>;
       signal?: AbortSignal;
       attachments?: ImagePart[];
       parentUuid?: string;
@@ -134,6 +169,23 @@ export class Project {
     });
   }
 
+  private async resolveFallbackModels(model: ModelInfo) {
+    const fallbackModels: ModelInfo[] = [];
+    for (const name of this.context.config.fallbackModels || []) {
+      const resolved = (await resolveModelWithContext(name, this.context))
+        .model;
+      if (
+        !resolved ||
+        (resolved.provider.id === model.provider.id &&
+          resolved.model.id === model.model.id)
+      ) {
+        continue;
+      }
+      fallbackModels.push(withRecording(resolved, this.context));
+    }
+    return fallbackModels;
+  }
+
   private async sendWithSystemPromptAndTools(
     message: string | null,
     opts: {
@@ -146,6 +198,18 @@ export class Project {
       onTextDelta?: (text: string) => Promise<void>;
       onChunk?: (chunk: any, requestId: string) => Promise<void>;
       onStreamResult?: (result: StreamResult) => Promise<void>;
+      onModelFallback?: (fallback: {
+        from: ModelInfo;
+        to: ModelInfo;
+        error: string;
+      }) => Promise<void>;
+      onBudgetWarning?: (warning: {
+        spend: BudgetSpend;
+        ratio: number;
+        message: string;
+      }) => Promise<void>;
+      onSteer?: () => Promise<string[]>;
+      onCompact?: (event: { status: CompactStatus }) => Promise<void>;
       signal?: AbortSignal;
       tools?: Tool[];
       systemPrompt?: string;
@@ -223,6 +287,10 @@ export class Project {
       jsonlLogger.addMessage({
         message: userMessageWithSessionId,
       });
+      // Files changed from now on can be restored to this message
+      new CheckpointStore({
+        dir: getCheckpointDir(this.context.paths, this.session.id),
+      }).addTurn(userMessage.uuid);
       await opts.onMessage?.({
         message: userMessage,
       });
@@ -266,9 +334,10 @@ export class Project {
     }
 
     // Resolve the final model (only once)
-    const resolvedModel = (
-      await resolveModelWithContext(modelToUse || null, this.context)
-    ).model!;
+    const resolvedModel = withRecording(
+      (await resolveModelWithContext(modelToUse || null, this.context)).model!,
+      this.context,
+    );
 
     // Output model info for initial message
     if (message !== null) {
@@ -281,7 +350,29 @@ export class Project {
       });
     }
 
-    const toolsManager = new Tools(tools);
+    const fallbackModels = await this.resolveFallbackModels(resolvedModel);
+    const compactModelName =
+      this.context.config.compactModel || this.context.config.smallModel;
+    const compactModel = compactModelName
+      ? (await resolveModelWithContext(compactModelName, this.context)).model
+      : null;
+    const budgetSpend = {
+      ...emptySpend(),
+      ...sessionConfigManager.config.spend,
+    };
+    const initialSpend = { ...budgetSpend };
+
+    const toolsManager = new Tools(tools, {
+      coerceParams: this.context.config.coerceToolParams,
+    });
+    // A compaction that started ends with 'done' even when it throws
+    let compacting = false;
+    const endCompact = async () => {
+      if (compacting) {
+        compacting = false;
+        await opts.onCompact?.({ status: 'done' });
+      }
+    };
     const result = await runLoop({
       input: filteredInput,
       model: resolvedModel,
@@ -291,6 +382,49 @@ export class Project {
       llmsContexts: llmsContext.messages,
       signal: opts.signal,
       autoCompact: this.context.config.autoCompact,
+      compaction: this.context.config.compaction,
+      compactModel: compactModel
+        ? withRecording(compactModel, this.context)
+        : resolvedModel,
+      onBeforeCompact: async ({ messages }) => {
+        await opts.onCompact?.({ status: 'start' });
+        compacting = true;
+        const result = await applyBeforeCompactHook(this.context, {
+          sessionId: this.session.id,
+          messages,
+          trigger: 'auto',
+        });
+        if (result.cancel) {
+          compacting = false;
+          await opts.onCompact?.({ status: 'cancelled' });
+        }
+        return result;
+      },
+      onAfterCompact: async (summary) => {
+        try {
+          return await applyAfterCompactHook(this.context, summary, {
+            sessionId: this.session.id,
+            trigger: 'auto',
+          });
+        } finally {
+          await endCompact();
+        }
+      },
+      toolConcurrency: this.context.config.toolConcurrency,
+      fallbackModels,
+      onModelFallback: async (fallback) => {
+        await opts.onModelFallback?.(fallback);
+      },
+      maxTokens: this.context.config.maxTokens,
+      maxCostUSD: this.context.config.maxCostUSD,
+      verifyCommands: this.context.config.verifyCommands,
+      verifyMaxAttempts: this.context.config.verifyMaxAttempts,
+      budgetSpend,
+      onBudgetWarning: async (warning) => {
+        await opts.onBudgetWarning?.(warning);
+      },
+      onSteer: opts.onSteer,
+      loopDetection: this.context.config.loopDetection,
       thinking: opts.thinking,
       temperature: this.context.config.temperature,
       onMessage: async (message) => {
@@ -308,6 +442,9 @@ export class Project {
           message: normalizedMessage,
         });
       },
+      onToolResultsCleared: async (cleared) => {
+        jsonlLogger.addToolResultsCleared(cleared);
+      },
       onTextDelta: async (text) => {
         await opts.onTextDelta?.(text);
       },
@@ -429,7 +566,17 @@ export class Project {
           })) ?? false
         );
       },
+    }).finally(endCompact);
+    // Reload the session config since it may be changed during the loop
+    const latestSessionConfigManager = new SessionConfigManager({
+      logPath: this.context.paths.getSessionLogPath(this.session.id),
     });
+    latestSessionConfigManager.config.spend = mergeSpend(
+      latestSessionConfigManager.config.spend,
+      initialSpend,
+      budgetSpend,
+    );
+    latestSessionConfigManager.write();
     const endTime = new Date();
     await this.context.apply({
       hook: 'conversation',
@@ -1,4 +1,5 @@
 import assert from 'assert';
+import type { BudgetSpend } from './budget';
 import type { Context } from './context';
 import { type ResponseFormat, runLoop, type ThinkingConfig } from './loop';
 import type { NormalizedMessage } from './message';
@@ -15,6 +16,8 @@ export async function query(opts: {
   onMessage?: (message: NormalizedMessage) => Promise<void>;
   thinking?: ThinkingConfig | false;
   responseFormat?: ResponseFormat;
+  // The usage is added to it, no limit is enforced
+  budgetSpend?: BudgetSpend;
 }) {
   const messages: NormalizedMessage[] = [
     ...(opts.messages || []),
@@ -42,5 +45,6 @@ export async function query(opts: {
     autoCompact: false,
     thinking: opts.thinking !== false ? opts.thinking : undefined,
     responseFormat: opts.responseFormat,
+    budgetSpend: opts.budgetSpend,
   });
 }
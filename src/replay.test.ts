@@ -0,0 +1,225 @@
+import type {
+  LanguageModelV2,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+} from '@ai-sdk/provider';
+import fs from 'fs';
+import os from 'os';
+import path from 'pathe';
+import { afterEach, beforeEach, expect, test } from 'vitest';
+import type { Context } from './context';
+import { runLoop } from './loop';
+import type { NormalizedMessage } from './message';
+import { type ModelInfo, withRecording } from './model';
+import { createRecordingModel, createReplayModel } from './replay';
+import { Tools } from './tool';
+import { createTaskTool } from './tools/task';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'neovate-replay-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function createPrompt(text: string): LanguageModelV2Prompt {
+  return [
+    { role: 'system', content: `Today is ${Math.random()}` },
+    { role: 'user', content: [{ type: 'text', text }] },
+  ];
+}
+
+function createTextChunks(text: string): LanguageModelV2StreamPart[] {
+  return [
+    { type: 'text-start', id: '1' },
+    { type: 'text-delta', id: '1', delta: text },
+    { type: 'text-end', id: '1' },
+    {
+      type: 'finish',
+      finishReason: 'stop',
+      usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+    },
+  ];
+}
+
+function createFakeModel(): LanguageModelV2 {
+  return {
+    specificationVersion: 'v2',
+    provider: 'fake',
+    modelId: 'fake',
+    supportedUrls: {},
+    async doGenerate() {
+      throw new Error('not implemented');
+    },
+    async doStream(options) {
+      const prompt = options.prompt[1] as any;
+      const chunks = createTextChunks(`echo: ${prompt.content[0].text}`);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+async function streamText(model: LanguageModelV2, text: string) {
+  const { stream } = await model.doStream({ prompt: createPrompt(text) });
+  let result = '';
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (value.type === 'text-delta') result += value.delta;
+  }
+  return result;
+}
+
+test('replays recorded streams in request order', async () => {
+  const fixturePath = path.join(tmpDir, 'order.jsonl');
+  const recording = createRecordingModel(createFakeModel(), fixturePath);
+  expect(await streamText(recording, 'a')).toBe('echo: a');
+  expect(await streamText(recording, 'b')).toBe('echo: b');
+
+  const replay = createReplayModel({ fixturePath, match: 'order' });
+  expect(await streamText(replay, 'x')).toBe('echo: a');
+  expect(await streamText(replay, 'y')).toBe('echo: b');
+  await expect(streamText(replay, 'z')).rejects.toThrow(
+    'No recorded stream request left',
+  );
+});
+
+test('replays recorded streams by prompt hash', async () => {
+  const fixturePath = path.join(tmpDir, 'hash.jsonl');
+  const recording = createRecordingModel(createFakeModel(), fixturePath);
+  await streamText(recording, 'a');
+  await streamText(recording, 'b');
+
+  const replay = createReplayModel({ fixturePath, match: 'hash' });
+  expect(await streamText(replay, 'b')).toBe('echo: b');
+  expect(await streamText(replay, 'a')).toBe('echo: a');
+  await expect(streamText(replay, 'c')).rejects.toThrow(
+    'No recorded stream request matches prompt hash',
+  );
+});
+
+function createScriptedModel(
+  steps: LanguageModelV2StreamPart[][],
+): LanguageModelV2 {
+  return {
+    specificationVersion: 'v2',
+    provider: 'fake',
+    modelId: 'fake',
+    supportedUrls: {},
+    async doGenerate() {
+      throw new Error('not implemented');
+    },
+    async doStream() {
+      const chunks = steps.shift();
+      if (!chunks) {
+        throw new Error('no more steps');
+      }
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            for (const chunk of chunks) controller.enqueue(chunk);
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+function createModelInfo(
+  createModel: () => Promise<LanguageModelV2>,
+): ModelInfo {
+  return {
+    provider: { id: 'fake' },
+    model: {
+      id: 'fake',
+      name: 'fake',
+      limit: { context: 200000, output: 0 },
+      modalities: { input: ['text'], output: ['text'] },
+    },
+    _mCreator: createModel,
+  } as unknown as ModelInfo;
+}
+
+async function runWithTask(model: ModelInfo, context: Context) {
+  const messages: NormalizedMessage[] = [];
+  const result = await runLoop({
+    input: 'where is the config loaded?',
+    model,
+    tools: new Tools([
+      createTaskTool({ context, sessionId: 'session', model, tools: [] }),
+    ]),
+    cwd: tmpDir,
+    onMessage: async (message) => {
+      messages.push(message);
+    },
+  });
+  return { result, messages };
+}
+
+test('replays the requests of a task sub-agent in order', async () => {
+  const fixturePath = path.join(tmpDir, 'task.jsonl');
+  const context = {
+    cwd: tmpDir,
+    productName: 'neovate',
+    config: { record: fixturePath },
+    paths: {
+      getSessionLogPath: () => path.join(tmpDir, 'session.jsonl'),
+    },
+  } as unknown as Context;
+  const recorded = createScriptedModel([
+    [
+      {
+        type: 'tool-call',
+        toolCallId: 'task-1',
+        toolName: 'task',
+        input: JSON.stringify({
+          description: 'Find the config',
+          prompt: 'Find where the config is loaded',
+        }),
+      },
+      {
+        type: 'finish',
+        finishReason: 'tool-calls',
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+      },
+    ],
+    createTextChunks('src/config.ts'),
+    createTextChunks('It is loaded in src/config.ts'),
+  ]);
+  const recording = await runWithTask(
+    withRecording(
+      createModelInfo(async () => recorded),
+      context,
+    ),
+    context,
+  );
+  expect(recording.result.success).toBe(true);
+
+  const replay = await runWithTask(
+    createModelInfo(async () =>
+      createReplayModel({ fixturePath, match: 'order' }),
+    ),
+    context,
+  );
+  expect(replay.result.success).toBe(true);
+  expect(replay.result.success && replay.result.data.text).toBe(
+    'It is loaded in src/config.ts',
+  );
+  // The sub-agent took its own entry, not the one of the main conversation
+  expect(JSON.stringify(replay.messages)).toContain(
+    '"llmContent":"src/config.ts"',
+  );
+  expect(replay.messages).toHaveLength(recording.messages.length);
+});
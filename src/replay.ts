@@ -0,0 +1,200 @@
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+} from '@ai-sdk/provider';
+import crypto from 'crypto';
+import createDebug from 'debug';
+import fs from 'fs';
+import path from 'pathe';
+
+const debug = createDebug('neovate:replay');
+
+export type ReplayMatch = 'order' | 'hash';
+
+/**
+ * One line of a fixture file, requests are recorded with the order in which
+ * they were sent, even if their responses finished in a different order.
+ */
+export type ReplayEntry =
+  | {
+      type: 'stream';
+      index: number;
+      promptHash: string;
+      chunks: LanguageModelV2StreamPart[];
+    }
+  | {
+      type: 'generate';
+      index: number;
+      promptHash: string;
+      result: Awaited<ReturnType<LanguageModelV2['doGenerate']>>;
+    };
+
+/**
+ * Hash of the conversation part of the prompt. System messages are skipped
+ * since they contain the date, cwd and other values that change per run.
+ */
+export function hashPrompt(prompt: LanguageModelV2Prompt) {
+  const messages = prompt.filter((message) => message.role !== 'system');
+  return crypto
+    .createHash('sha1')
+    .update(JSON.stringify(messages))
+    .digest('hex');
+}
+
+// State is kept per fixture file since a new model instance is created for
+// every request
+const recorders = new Map<string, { nextIndex: number }>();
+const players = new Map<
+  string,
+  { entries: ReplayEntry[]; used: Set<ReplayEntry> }
+>();
+
+function getRecorder(fixturePath: string) {
+  let recorder = recorders.get(fixturePath);
+  if (!recorder) {
+    fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+    fs.writeFileSync(fixturePath, '', 'utf-8');
+    recorder = { nextIndex: 0 };
+    recorders.set(fixturePath, recorder);
+  }
+  return recorder;
+}
+
+function appendEntry(fixturePath: string, entry: ReplayEntry) {
+  fs.appendFileSync(fixturePath, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Wrap a model to save its requests and responses in the fixture format the
+ * replay provider reads.
+ */
+export function createRecordingModel(
+  model: LanguageModelV2,
+  fixturePath: string,
+): LanguageModelV2 {
+  const recorder = getRecorder(fixturePath);
+  return {
+    specificationVersion: 'v2',
+    provider: model.provider,
+    modelId: model.modelId,
+    get supportedUrls() {
+      return model.supportedUrls;
+    },
+    async doGenerate(options: LanguageModelV2CallOptions) {
+      const index = recorder.nextIndex++;
+      const result = await model.doGenerate(options);
+      appendEntry(fixturePath, {
+        type: 'generate',
+        index,
+        promptHash: hashPrompt(options.prompt),
+        result,
+      });
+      return result;
+    },
+    async doStream(options: LanguageModelV2CallOptions) {
+      const index = recorder.nextIndex++;
+      const result = await model.doStream(options);
+      const chunks: LanguageModelV2StreamPart[] = [];
+      const stream = result.stream.pipeThrough(
+        new TransformStream<
+          LanguageModelV2StreamPart,
+          LanguageModelV2StreamPart
+        >({
+          transform(chunk, controller) {
+            chunks.push(chunk);
+            controller.enqueue(chunk);
+          },
+          flush() {
+            appendEntry(fixturePath, {
+              type: 'stream',
+              index,
+              promptHash: hashPrompt(options.prompt),
+              chunks,
+            });
+          },
+        }),
+      );
+      return { ...result, stream };
+    },
+  };
+}
+
+function getPlayer(fixturePath: string) {
+  let player = players.get(fixturePath);
+  if (!player) {
+    const entries = fs
+      .readFileSync(fixturePath, 'utf-8')
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as ReplayEntry)
+      .sort((a, b) => a.index - b.index);
+    player = { entries, used: new Set() };
+    players.set(fixturePath, player);
+  }
+  return player;
+}
+
+function takeEntry<T extends ReplayEntry['type']>(opts: {
+  fixturePath: string;
+  match: ReplayMatch;
+  type: T;
+  prompt: LanguageModelV2Prompt;
+}): Extract<ReplayEntry, { type: T }> {
+  const player = getPlayer(opts.fixturePath);
+  const promptHash = hashPrompt(opts.prompt);
+  const entry = player.entries.find(
+    (entry) =>
+      entry.type === opts.type &&
+      !player.used.has(entry) &&
+      (opts.match === 'order' || entry.promptHash === promptHash),
+  );
+  if (!entry) {
+    throw new Error(
+      opts.match === 'order'
+        ? `No recorded ${opts.type} request left in ${opts.fixturePath}`
+        : `No recorded ${opts.type} request matches prompt hash ${promptHash} in ${opts.fixturePath}`,
+    );
+  }
+  player.used.add(entry);
+  debug('replay entry', entry.index, opts.match);
+  return entry as Extract<ReplayEntry, { type: T }>;
+}
+
+/**
+ * A model that replays the responses saved with `--record`, matched by the
+ * order of the requests or by the hash of their prompts.
+ */
+export function createReplayModel(opts: {
+  fixturePath: string;
+  match: ReplayMatch;
+}): LanguageModelV2 {
+  return {
+    specificationVersion: 'v2',
+    provider: 'replay',
+    modelId: opts.match,
+    supportedUrls: {},
+    async doGenerate(options: LanguageModelV2CallOptions) {
+      return takeEntry({ ...opts, type: 'generate', prompt: options.prompt })
+        .result;
+    },
+    async doStream(options: LanguageModelV2CallOptions) {
+      const { chunks } = takeEntry({
+        ...opts,
+        type: 'stream',
+        prompt: options.prompt,
+      });
+      return {
+        stream: new ReadableStream<LanguageModelV2StreamPart>({
+          start(controller) {
+            for (const chunk of chunks) {
+              controller.enqueue(chunk);
+            }
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
@@ -88,7 +88,8 @@ class SDKSessionImpl implements SDKSession {
       const msg = data.message as NormalizedMessage;
       if (msg.type === 'message') {
         this.enqueueEvent({ type: 'message', data: msg });
-        if (msg.uuid) {
+        // Sub-agent sidechain messages are not part of the main conversation
+        if (msg.uuid && !msg.isSidechain) {
           this.currentParentUuid = msg.uuid;
         }
       }
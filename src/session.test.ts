@@ -1,6 +1,10 @@
 import { expect, test } from 'vitest';
 import type { NormalizedMessage } from './message';
-import { filterMessages } from './session';
+import {
+  filterMessages,
+  getSessionBranches,
+  getSidechainMessages,
+} from './session';
 
 function createTestMessage(
   uuid: string,
@@ -94,3 +98,72 @@ test('handles multiple null parents - uses latest', () => {
   // Should start from d and walk back to c (the latest null parent)
   expect(result).toEqual([c, d]);
 });
+
+test('ignores sub-agent sidechain messages', () => {
+  const a = createTestMessage('a', null);
+  const b = createTestMessage('b', 'a', 'assistant');
+  const sidechainRoot = {
+    ...createTestMessage('s1', null),
+    isSidechain: true,
+    parentToolUseId: 'call_1',
+  };
+  const sidechainReply = {
+    ...createTestMessage('s2', 's1', 'assistant'),
+    isSidechain: true,
+    parentToolUseId: 'call_1',
+  };
+  const c = createTestMessage('c', 'b');
+
+  const messages = [a, b, sidechainRoot, sidechainReply, c];
+  expect(filterMessages(messages)).toEqual([a, b, c]);
+  expect(getSidechainMessages([{ type: 'config' }, ...messages])).toEqual({
+    call_1: [sidechainRoot, sidechainReply],
+  });
+});
+
+test('starts from the active leaf when one is picked', () => {
+  const a = createTestMessage('a', null);
+  const b = createTestMessage('b', 'a', 'assistant');
+  const c = createTestMessage('c', 'b');
+  const d = createTestMessage('d', 'a');
+
+  const messages = [a, b, c, d];
+  expect(filterMessages(messages, 'c')).toEqual([a, b, c]);
+  // Unknown leaves fall back to the last message
+  expect(filterMessages(messages, 'x')).toEqual([a, d]);
+});
+
+test('lists the branches with their diverging messages', () => {
+  const a = createTestMessage('a', null);
+  const b = createTestMessage('b', 'a', 'assistant');
+  const c = createTestMessage('c', 'b');
+  const d = createTestMessage('d', 'c', 'assistant');
+  const e = createTestMessage('e', 'b');
+  const f = createTestMessage('f', 'e', 'assistant');
+
+  const entries = [
+    { type: 'config', config: { approvalTools: [], activeLeafUuid: 'd' } },
+    a,
+    b,
+    c,
+    d,
+    e,
+    f,
+  ];
+  expect(getSessionBranches(entries)).toEqual([
+    expect.objectContaining({
+      leafUuid: 'f',
+      divergingUuid: 'e',
+      divergingText: 'Message e',
+      messageCount: 4,
+      active: false,
+    }),
+    expect.objectContaining({
+      leafUuid: 'd',
+      divergingUuid: 'c',
+      divergingText: 'Message c',
+      messageCount: 4,
+      active: true,
+    }),
+  ]);
+});
@@ -1,8 +1,18 @@
 import fs from 'fs';
 import path from 'pathe';
+import type { BudgetSpend } from './budget';
 import type { ApprovalMode } from './config';
 import { History } from './history';
-import type { NormalizedMessage } from './message';
+import {
+  getMessageText,
+  isToolResultMessage,
+  type NormalizedMessage,
+} from './message';
+import { SessionIndex } from './sessionIndex';
+import {
+  applyClearedToolResults,
+  type ToolResultsClearedEntry,
+} from './staleToolResults';
 import { Usage } from './usage';
 import { randomUUID } from './utils/randomUUID';
 
@@ -49,9 +59,26 @@ export type SessionConfig = {
   approvalMode?: ApprovalMode;
   approvalTools: string[];
   summary?: string;
+  /**
+   * Generated with the small model after the first turn and after each
+   * compaction, a summary set by the client takes precedence.
+   */
+  title?: string;
+  // Set once a title was requested, a failed one is only retried after a
+  // compaction
+  titleAttempted?: boolean;
+  // Set by the user with `/tag`
+  tags?: string[];
   pastedTextMap?: Record<string, string>;
   pastedImageMap?: Record<string, string>;
   additionalDirectories?: string[];
+  spend?: BudgetSpend;
+  /**
+   * Leaf of the branch picked with `/branches`, the conversation goes on from
+   * it instead of the last written message. Cleared by the next written
+   * message, which is then the last one of the active branch.
+   */
+  activeLeafUuid?: string;
 };
 
 const DEFAULT_SESSION_CONFIG: SessionConfig = {
@@ -65,14 +92,16 @@ const DEFAULT_SESSION_CONFIG: SessionConfig = {
 export class SessionConfigManager {
   logPath: string;
   config: SessionConfig;
+  sessionIndex: SessionIndex;
   constructor(opts: { logPath: string }) {
     this.logPath = opts.logPath;
     this.config = this.load(opts.logPath);
+    this.sessionIndex = new SessionIndex({ dir: path.dirname(opts.logPath) });
   }
 
   load(logPath: string): SessionConfig {
     if (!fs.existsSync(logPath)) {
-      return DEFAULT_SESSION_CONFIG;
+      return { ...DEFAULT_SESSION_CONFIG };
     }
     try {
       const content = fs.readFileSync(logPath, 'utf-8');
@@ -85,9 +114,9 @@ export class SessionConfigManager {
           }
         } catch {}
       }
-      return DEFAULT_SESSION_CONFIG;
+      return { ...DEFAULT_SESSION_CONFIG };
     } catch {
-      return DEFAULT_SESSION_CONFIG;
+      return { ...DEFAULT_SESSION_CONFIG };
     }
   }
   write() {
@@ -96,6 +125,7 @@ export class SessionConfigManager {
     if (!fs.existsSync(this.logPath)) {
       fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
       fs.writeFileSync(this.logPath, configLine + '\n', 'utf-8');
+      this.sessionIndex.updateConfig(this.logPath, this.config);
       return;
     }
     try {
@@ -117,16 +147,19 @@ export class SessionConfigManager {
         `Failed to write config to log file: ${this.logPath}: ${e.message}`,
       );
     }
+    this.sessionIndex.updateConfig(this.logPath, this.config);
   }
 }
 
 export function filterMessages(
   messages: NormalizedMessage[],
+  activeLeafUuid?: string,
 ): NormalizedMessage[] {
-  // Filter to message types only
+  // Filter to message types only, sub-agent sidechains are not part of the
+  // main conversation
   const messageTypeOnly = messages.filter((message) => {
     const isMessage = message.type === 'message';
-    return isMessage;
+    return isMessage && !message.isSidechain;
   });
 
   if (messageTypeOnly.length === 0) {
@@ -139,9 +172,12 @@ export function filterMessages(
     messageMap.set(message.uuid, message);
   }
 
-  // Start from the last message and walk backward to build the active path
+  // Start from the active leaf or the last message and walk backward to
+  // build the active path
   const activePath = new Set<string>();
-  let currentMessage = messageTypeOnly[messageTypeOnly.length - 1];
+  let currentMessage =
+    (activeLeafUuid && messageMap.get(activeLeafUuid)) ||
+    messageTypeOnly[messageTypeOnly.length - 1];
 
   while (currentMessage) {
     activePath.add(currentMessage.uuid);
@@ -162,14 +198,12 @@ export function filterMessages(
   return messageTypeOnly.filter((message) => activePath.has(message.uuid));
 }
 
-export function loadSessionMessages(opts: {
-  logPath: string;
-}): NormalizedMessage[] {
-  if (!fs.existsSync(opts.logPath)) {
+export function readSessionLogEntries(logPath: string): any[] {
+  if (!fs.existsSync(logPath)) {
     return [];
   }
-  const content = fs.readFileSync(opts.logPath, 'utf-8');
-  const messages = content
+  const content = fs.readFileSync(logPath, 'utf-8');
+  return content
     .split('\n')
     .filter(Boolean)
     .map((line, index) => {
@@ -177,11 +211,124 @@ export function loadSessionMessages(opts: {
         return JSON.parse(line);
       } catch (e: any) {
         throw new Error(
-          `Failed to parse line ${index + 1} of log file: ${opts.logPath}: ${
+          `Failed to parse line ${index + 1} of log file: ${logPath}: ${
             e.message
           }`,
         );
       }
     });
-  return filterMessages(messages);
+}
+
+export function loadSessionMessages(opts: {
+  logPath: string;
+}): NormalizedMessage[] {
+  const messages = readSessionLogEntries(opts.logPath);
+  // Stale tool results cleared before compaction stay cleared on resume
+  const cleared = messages
+    .filter((entry) => entry.type === 'tool_results_cleared')
+    .flatMap((entry: ToolResultsClearedEntry) => entry.cleared);
+  return applyClearedToolResults(
+    filterMessages(messages, getActiveLeafUuid(messages)),
+    cleared,
+  );
+}
+
+/**
+ * Messages of the sub-agent runs of a session, keyed by the id of the task
+ * tool call that started them.
+ */
+export function getSidechainMessages(
+  entries: Record<string, any>[],
+): Record<string, NormalizedMessage[]> {
+  const sidechainMessages: Record<string, NormalizedMessage[]> = {};
+  for (const message of entries as NormalizedMessage[]) {
+    if (
+      message.type !== 'message' ||
+      !message.isSidechain ||
+      !message.parentToolUseId
+    ) {
+      continue;
+    }
+    sidechainMessages[message.parentToolUseId] = [
+      ...(sidechainMessages[message.parentToolUseId] || []),
+      message,
+    ];
+  }
+  return sidechainMessages;
+}
+
+export function getActiveLeafUuid(entries: Record<string, any>[]) {
+  const configEntry = entries.find((entry) => entry.type === 'config');
+  return (configEntry?.config as SessionConfig | undefined)?.activeLeafUuid;
+}
+
+export type SessionBranch = {
+  leafUuid: string;
+  // First message that's only on this branch, where it diverges from the
+  // closest other branch
+  divergingUuid: string;
+  divergingText: string;
+  messageCount: number;
+  timestamp: string;
+  active: boolean;
+};
+
+/**
+ * List the branches of a session, one per leaf of the message tree, the most
+ * recent first. Forking and compaction both start new branches.
+ */
+export function getSessionBranches(
+  entries: Record<string, any>[],
+): SessionBranch[] {
+  const messages = (entries as NormalizedMessage[]).filter(
+    (message) => message.type === 'message' && !message.isSidechain,
+  );
+  const messageMap = new Map(messages.map((m) => [m.uuid, m]));
+  const childCounts = new Map<string, number>();
+  for (const message of messages) {
+    if (message.parentUuid && messageMap.has(message.parentUuid)) {
+      childCounts.set(
+        message.parentUuid,
+        (childCounts.get(message.parentUuid) ?? 0) + 1,
+      );
+    }
+  }
+  const activePath = filterMessages(messages, getActiveLeafUuid(entries));
+  const activeLeafUuid = activePath[activePath.length - 1]?.uuid;
+
+  const branches: SessionBranch[] = [];
+  for (const leaf of messages) {
+    if (childCounts.has(leaf.uuid)) {
+      continue;
+    }
+    const branchPath = filterMessages(messages, leaf.uuid);
+    // Messages after the last fork point are only on this branch
+    let divergingIndex = 0;
+    branchPath.forEach((message, index) => {
+      if (
+        message.parentUuid &&
+        (childCounts.get(message.parentUuid) ?? 0) > 1
+      ) {
+        divergingIndex = index;
+      }
+    });
+    const diverging = branchPath[divergingIndex];
+    const divergingText =
+      branchPath
+        .slice(divergingIndex)
+        .filter(
+          (message) => message.role !== 'tool' && !isToolResultMessage(message),
+        )
+        .map((message) => getMessageText(message).trim())
+        .find(Boolean) ?? '';
+    branches.push({
+      leafUuid: leaf.uuid,
+      divergingUuid: diverging.uuid,
+      divergingText,
+      messageCount: branchPath.length,
+      timestamp: leaf.timestamp,
+      active: leaf.uuid === activeLeafUuid,
+    });
+  }
+  return branches.reverse();
 }
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'pathe';
+import { afterEach, beforeEach, expect, test } from 'vitest';
+import { Paths } from './paths';
+import { loadSessionMessages, SessionConfigManager } from './session';
+import { exportSession, importSession } from './sessionExport';
+
+let tmpDir: string;
+let paths: Paths;
+
+function createPaths(name: string) {
+  const projectPaths = new Paths({ productName: 'test', cwd: `/${name}` });
+  projectPaths.globalProjectDir = path.join(tmpDir, name);
+  fs.mkdirSync(projectPaths.globalProjectDir, { recursive: true });
+  return projectPaths;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-export-'));
+  paths = createPaths('a');
+  const logPath = paths.getSessionLogPath('abc');
+  const timestamp = new Date().toISOString();
+  const entries = [
+    {
+      type: 'message',
+      uuid: '1',
+      parentUuid: null,
+      timestamp,
+      role: 'user',
+      content: 'Read the readme [Image #1]',
+    },
+    {
+      type: 'message',
+      uuid: '2',
+      parentUuid: '1',
+      timestamp,
+      role: 'assistant',
+      content: [
+        { type: 'text', text: 'Reading it.' },
+        { type: 'tool_use', id: 'c1', name: 'read', input: { file: 'a.md' } },
+      ],
+    },
+    {
+      type: 'message',
+      uuid: '3',
+      parentUuid: '2',
+      timestamp,
+      role: 'tool',
+      content: [
+        {
+          type: 'tool-result',
+          toolCallId: 'c1',
+          toolName: 'read',
+          input: { file: 'a.md' },
+          result: { llmContent: '# Title\n```js\ncode\n```' },
+        },
+      ],
+    },
+  ];
+  fs.writeFileSync(
+    logPath,
+    entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n',
+  );
+  const configManager = new SessionConfigManager({ logPath });
+  configManager.config.summary = 'Readme questions';
+  configManager.config.pastedImageMap = { '#1': 'aW1hZ2U=' };
+  configManager.write();
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('exports the conversation as markdown', async () => {
+  const markdown = await exportSession({
+    paths,
+    sessionId: 'abc',
+    format: 'md',
+  });
+  expect(markdown).toContain('# Readme questions');
+  expect(markdown).toContain('## User\n\nRead the readme [Image #1]');
+  expect(markdown).toContain('**Tool: read**');
+  // The fence is longer than the code block of the result
+  expect(markdown).toContain('````\n# Title\n```js\ncode\n```\n````');
+});
+
+test('imports json exports into another project', async () => {
+  const exportPath = path.join(tmpDir, 'session.json');
+  fs.writeFileSync(
+    exportPath,
+    await exportSession({ paths, sessionId: 'abc', format: 'json' }),
+  );
+  const otherPaths = createPaths('b');
+
+  const sessionId = importSession({ paths: otherPaths, filePath: exportPath });
+  expect(sessionId).toBe('abc');
+  const logPath = otherPaths.getSessionLogPath(sessionId);
+  expect(new SessionConfigManager({ logPath }).config).toMatchObject({
+    summary: 'Readme questions',
+    pastedImageMap: { '#1': 'aW1hZ2U=' },
+  });
+  expect(loadSessionMessages({ logPath })).toEqual(
+    loadSessionMessages({ logPath: paths.getSessionLogPath('abc') }).map(
+      (message) => ({ ...message, sessionId }),
+    ),
+  );
+
+  // A second import doesn't overwrite the first one
+  const secondId = importSession({ paths: otherPaths, filePath: exportPath });
+  expect(secondId).not.toBe('abc');
+});
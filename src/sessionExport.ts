@@ -0,0 +1,232 @@
+import fs from 'fs';
+import path from 'pathe';
+import type { NormalizedMessage } from './message';
+import type { Paths } from './paths';
+import {
+  filterMessages,
+  getActiveLeafUuid,
+  readSessionLogEntries,
+  Session,
+  type SessionConfig,
+} from './session';
+
+const EXPORT_VERSION = 1;
+
+export type SessionExportFormat = 'md' | 'html' | 'json';
+
+export const SESSION_EXPORT_FORMATS: SessionExportFormat[] = [
+  'md',
+  'html',
+  'json',
+];
+
+/**
+ * Portable JSON export of a session. It's self-contained, the session config
+ * carries the pasted images and texts and the entries are the lines of the
+ * session log, so the session can be imported in another project as is.
+ */
+export type SessionExport = {
+  version: number;
+  sessionId: string;
+  exportedAt: string;
+  config: SessionConfig | null;
+  entries: Record<string, any>[];
+};
+
+function readLogEntries(logPath: string): Record<string, any>[] {
+  if (!fs.existsSync(logPath)) {
+    throw new Error(`Session not found: ${logPath}`);
+  }
+  return readSessionLogEntries(logPath);
+}
+
+function toSessionExport(
+  sessionId: string,
+  entries: Record<string, any>[],
+): SessionExport {
+  const configEntry = entries.find((entry) => entry.type === 'config');
+  return {
+    version: EXPORT_VERSION,
+    sessionId,
+    exportedAt: new Date().toISOString(),
+    config: configEntry?.config ?? null,
+    entries: entries.filter((entry) => entry.type !== 'config'),
+  };
+}
+
+function toText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return JSON.stringify(content, null, 2);
+  }
+  return content
+    .map((part) => {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'image') return `[Image ${part.mimeType}]`;
+      return '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+function codeBlock(text: string, lang = '') {
+  // Use a fence longer than any backtick run of the text
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = '`'.repeat(longest + 1);
+  return `${fence}${lang}\n${text}\n${fence}`;
+}
+
+function renderMarkdown(
+  sessionId: string,
+  config: SessionConfig | null,
+  messages: NormalizedMessage[],
+) {
+  const lines = [`# ${config?.summary || `Session ${sessionId}`}`, ''];
+  lines.push(
+    `Session \`${sessionId}\`, exported at ${new Date().toISOString()}`,
+    '',
+  );
+  for (const message of messages) {
+    if (message.role === 'user') {
+      if (
+        Array.isArray(message.content) &&
+        message.content.some((part) => part.type === 'tool_result')
+      ) {
+        continue;
+      }
+      lines.push('## User', '', toText(message.content), '');
+    } else if (message.role === 'assistant') {
+      lines.push('## Assistant', '');
+      if (typeof message.content === 'string') {
+        lines.push(message.content, '');
+        continue;
+      }
+      for (const part of message.content) {
+        if (part.type === 'text') {
+          lines.push(part.text, '');
+        } else if (part.type === 'tool_use') {
+          lines.push(
+            `**Tool: ${part.name}**`,
+            '',
+            codeBlock(JSON.stringify(part.input, null, 2), 'json'),
+            '',
+          );
+        }
+      }
+    } else if (message.role === 'tool') {
+      for (const part of message.content) {
+        const { llmContent, isError } = part.result;
+        lines.push(
+          '<details>',
+          `<summary>${isError ? 'Error' : 'Result'} of ${part.toolName}</summary>`,
+          '',
+          codeBlock(toText(llmContent)),
+          '',
+          '</details>',
+          '',
+        );
+      }
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render a session as Markdown (the active conversation), HTML (the log
+ * viewer page) or portable JSON.
+ */
+export async function exportSession(opts: {
+  paths: Paths;
+  sessionId: string;
+  format: SessionExportFormat;
+}) {
+  const { paths, sessionId, format } = opts;
+  const logPath = paths.getSessionLogPath(sessionId);
+  const entries = readLogEntries(logPath);
+  switch (format) {
+    case 'json':
+      return JSON.stringify(toSessionExport(sessionId, entries), null, 2);
+    case 'html': {
+      const { buildSessionHtml } = await import('./commands/log');
+      return buildSessionHtml(logPath, sessionId);
+    }
+    case 'md': {
+      const { config } = toSessionExport(sessionId, entries);
+      const messages = filterMessages(
+        entries as NormalizedMessage[],
+        getActiveLeafUuid(entries),
+      );
+      return renderMarkdown(sessionId, config, messages);
+    }
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+/**
+ * Export a session to a file, `session-<id>.<format>` in `cwd` by default.
+ * Returns the path of the written file.
+ */
+export async function writeSessionExport(opts: {
+  paths: Paths;
+  sessionId: string;
+  format: SessionExportFormat;
+  cwd: string;
+  output?: string;
+}) {
+  const content = await exportSession(opts);
+  const outPath = path.resolve(
+    opts.cwd,
+    opts.output ||
+      `session-${path.basename(opts.sessionId, '.jsonl')}.${opts.format}`,
+  );
+  fs.mkdirSync(path.dirname(outPath), { recursive: true });
+  fs.writeFileSync(outPath, content, 'utf-8');
+  return outPath;
+}
+
+/**
+ * Recreate a session from a JSON export under the project of `paths`. The
+ * original session id is kept unless the project already has a session with
+ * it. Returns the id of the imported session.
+ */
+export function importSession(opts: { paths: Paths; filePath: string }) {
+  const { paths, filePath } = opts;
+  let data: SessionExport;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (e: any) {
+    throw new Error(`Failed to read session export ${filePath}: ${e.message}`);
+  }
+  if (data?.version !== EXPORT_VERSION || !Array.isArray(data.entries)) {
+    throw new Error(
+      `Unsupported session export ${filePath}, export it again as json`,
+    );
+  }
+  let sessionId = data.sessionId;
+  if (
+    !/^[\w-]+$/.test(sessionId ?? '') ||
+    fs.existsSync(paths.getSessionLogPath(sessionId))
+  ) {
+    sessionId = Session.createSessionId();
+  }
+  const lines = [
+    ...(data.config ? [{ type: 'config', config: data.config }] : []),
+    ...data.entries.map((entry) =>
+      entry.type === 'message' ? { ...entry, sessionId } : entry,
+    ),
+  ];
+  const logPath = paths.getSessionLogPath(sessionId);
+  fs.mkdirSync(path.dirname(logPath), { recursive: true });
+  fs.writeFileSync(
+    logPath,
+    `${lines.map((line) => JSON.stringify(line)).join('\n')}\n`,
+    'utf-8',
+  );
+  return sessionId;
+}
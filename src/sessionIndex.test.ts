@@ -0,0 +1,155 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'pathe';
+import { afterEach, beforeEach, expect, test } from 'vitest';
+import { JsonlLogger } from './jsonl';
+import { createUserMessage, type NormalizedMessage } from './message';
+import { SessionConfigManager } from './session';
+import { SessionIndex } from './sessionIndex';
+
+let dir: string;
+let index: SessionIndex;
+
+function logPath(sessionId: string) {
+  return path.join(dir, `${sessionId}.jsonl`);
+}
+
+function assistantMessage(
+  parentUuid: string | null,
+  model: string,
+): NormalizedMessage {
+  return {
+    type: 'message',
+    uuid: `${model}-${parentUuid}`,
+    parentUuid,
+    timestamp: new Date().toISOString(),
+    role: 'assistant',
+    content: 'done',
+    text: 'done',
+    model,
+    usage: { input_tokens: 10, output_tokens: 10 },
+  };
+}
+
+function writeSession(sessionId: string, prompt: string) {
+  const logger = new JsonlLogger({ filePath: logPath(sessionId) });
+  const user = logger.addUserMessage(prompt, sessionId);
+  logger.addMessage({
+    message: { ...assistantMessage(user.uuid, 'openai/gpt-5'), sessionId },
+  });
+  return logger;
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-index-'));
+  index = new SessionIndex({ dir });
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('indexes new logs when listing and paginates', () => {
+  writeSession('a', 'first session');
+  writeSession('b', 'second session');
+  fs.rmSync(index.recordsDir, { recursive: true });
+
+  const { sessions, total } = index.list({ limit: 1 });
+  expect(total).toBe(2);
+  expect(sessions).toHaveLength(1);
+  expect(fs.existsSync(index.getRecordPath('a'))).toBe(true);
+  expect(index.list({ offset: 1, limit: 1 }).sessions).toHaveLength(1);
+  expect(index.list({ offset: 2 }).sessions).toEqual([]);
+  expect(index.list().sessions.find((s) => s.sessionId === 'a')).toMatchObject({
+    summary: 'first session',
+    messageCount: 2,
+    model: 'openai/gpt-5',
+  });
+});
+
+test('is kept up to date by the logger and the session config', () => {
+  const logger = writeSession('a', 'fix the websocket test');
+  logger.addMessage({
+    message: {
+      ...assistantMessage(logger.lastUuid, 'anthropic/claude'),
+      sessionId: 'a',
+    },
+  });
+  const configManager = new SessionConfigManager({ logPath: logPath('a') });
+  configManager.config.summary = 'Websocket test fix';
+  configManager.config.spend = { tokens: 100, costUSD: 0.5 };
+  configManager.write();
+
+  const stored = JSON.parse(fs.readFileSync(index.getRecordPath('a'), 'utf-8'));
+  expect(stored).toMatchObject({
+    summary: 'Websocket test fix',
+    messageCount: 3,
+    model: 'anthropic/claude',
+    costUSD: 0.5,
+    size: fs.statSync(logPath('a')).size,
+  });
+});
+
+test('indexes logs written without it again', () => {
+  writeSession('a', 'first session');
+  index.list();
+  fs.appendFileSync(
+    logPath('a'),
+    JSON.stringify(createUserMessage('written elsewhere', null)) + '\n',
+  );
+  writeSession('b', 'second session');
+  fs.rmSync(logPath('b'));
+
+  const { sessions, total } = index.list();
+  expect(total).toBe(1);
+  expect(sessions[0].messageCount).toBe(3);
+});
+
+test('updates only the record of the written session', () => {
+  writeSession('a', 'first session');
+  writeSession('b', 'second session');
+  const before = fs.readFileSync(index.getRecordPath('b'), 'utf-8');
+  const logger = new JsonlLogger({ filePath: logPath('a') });
+  logger.addUserMessage('follow up', 'a');
+
+  expect(fs.readFileSync(index.getRecordPath('b'), 'utf-8')).toBe(before);
+  expect(
+    JSON.parse(fs.readFileSync(index.getRecordPath('a'), 'utf-8')),
+  ).toMatchObject({ messageCount: 3 });
+});
+
+test('removes the records of deleted logs and the legacy index', () => {
+  writeSession('a', 'first session');
+  writeSession('b', 'second session');
+  fs.writeFileSync(path.join(dir, 'sessions-index.json'), '{}');
+  fs.rmSync(logPath('b'));
+
+  expect(index.list().total).toBe(1);
+  expect(fs.existsSync(index.getRecordPath('b'))).toBe(false);
+  expect(fs.existsSync(path.join(dir, 'sessions-index.json'))).toBe(false);
+});
+
+test('rebuilds the index from the session logs', () => {
+  writeSession('a', 'first session');
+  index.list();
+  fs.writeFileSync(index.getRecordPath('a'), '{"version":2}');
+  fs.writeFileSync(index.getRecordPath('x'), '{}');
+  expect(index.rebuild()).toBe(1);
+  expect(fs.readdirSync(index.recordsDir)).toEqual(['a.json']);
+  expect(index.list().sessions.map((s) => s.sessionId)).toEqual(['a']);
+});
+
+test('prefers the generated title to the first message and filters by tag', () => {
+  writeSession('a', 'fix the websocket test');
+  writeSession('b', 'add rate limiting');
+  const configManager = new SessionConfigManager({ logPath: logPath('a') });
+  configManager.config.title = 'Flaky websocket test';
+  configManager.config.tags = ['bug', 'ws'];
+  configManager.write();
+
+  expect(index.list({ tags: ['#BUG'] }).sessions).toMatchObject([
+    { sessionId: 'a', summary: 'Flaky websocket test', tags: ['bug', 'ws'] },
+  ]);
+  expect(index.list({ tags: ['bug', 'auth'] }).total).toBe(0);
+  expect(index.list().total).toBe(2);
+});
@@ -0,0 +1,317 @@
+import fs from 'fs';
+import path from 'pathe';
+import type { NormalizedMessage } from './message';
+import type { SessionInfo } from './paths';
+import type { SessionConfig } from './session';
+
+const INDEX_DIR_NAME = 'sessions-index';
+// The single index file of the previous version, removed when listing
+const LEGACY_INDEX_FILE_NAME = 'sessions-index.json';
+const INDEX_VERSION = 2;
+const DEFAULT_PAGE_SIZE = 50;
+
+export type SessionIndexEntry = SessionInfo & {
+  // Model of the last response
+  model?: string;
+  costUSD?: number;
+};
+
+// Entries are saved with ISO dates and the size and mtime of the log file
+// they were built from, a change means the log was written without the index
+type StoredEntry = Omit<SessionIndexEntry, 'modified' | 'created'> & {
+  version: number;
+  modified: string;
+  created: string;
+  size: number;
+  mtimeMs: number;
+};
+
+function normalizeSummary(summary: string): string {
+  if (!summary) return '';
+  return summary
+    .replace(/\r\n|\r|\n/g, ' ') // Replace all line breaks with spaces
+    .replace(/\s+/g, ' ') // Merge consecutive whitespace characters into single space
+    .trim(); // Remove leading and trailing whitespace
+}
+
+function getUserMessageSummary(entry: Record<string, any>) {
+  if (
+    entry.type !== 'message' ||
+    entry.role !== 'user' ||
+    entry.isSidechain ||
+    typeof entry.content !== 'string'
+  ) {
+    return '';
+  }
+  const summary =
+    entry.content.length > 50
+      ? `${entry.content.slice(0, 50)}...`
+      : entry.content;
+  return normalizeSummary(summary);
+}
+
+function getConfigSummary(config: Partial<SessionConfig> | undefined) {
+  return normalizeSummary(config?.summary || config?.title || '');
+}
+
+/**
+ * Normalize the tags set by the user: trimmed, without the leading `#` of
+ * `/resume #tag` and without duplicates.
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().replace(/^#+/, ''))
+    .filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+export function hasTags(entry: SessionInfo, tags: string[]) {
+  const entryTags = (entry.tags || []).map((tag) => tag.toLowerCase());
+  return tags.every((tag) => entryTags.includes(tag.toLowerCase()));
+}
+
+/**
+ * Read the index entry of a session from its log file, the summary is the
+ * summary or the generated title of the session config, or the first user
+ * message.
+ */
+export function readSessionIndexEntry(logPath: string): SessionIndexEntry {
+  const stats = fs.statSync(logPath);
+  const entry: SessionIndexEntry = {
+    sessionId: path.basename(logPath, '.jsonl'),
+    modified: stats.mtime,
+    created: stats.birthtime,
+    messageCount: 0,
+    summary: '',
+  };
+  let configSummary = '';
+  try {
+    const lines = fs.readFileSync(logPath, 'utf-8').split('\n').filter(Boolean);
+    for (const line of lines) {
+      let logEntry: Record<string, any>;
+      try {
+        logEntry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (logEntry.type === 'config') {
+        configSummary = getConfigSummary(logEntry.config);
+        entry.tags = logEntry.config?.tags;
+        entry.costUSD = logEntry.config?.spend?.costUSD;
+        continue;
+      }
+      if (logEntry.type !== 'message' || logEntry.isSidechain) {
+        continue;
+      }
+      entry.messageCount++;
+      if (!entry.summary) {
+        entry.summary = getUserMessageSummary(logEntry);
+      }
+      if (logEntry.role === 'assistant' && logEntry.model) {
+        entry.model = logEntry.model;
+      }
+    }
+  } catch {
+    // ignore read error, message count is 0
+  }
+  entry.summary = configSummary || entry.summary;
+  return entry;
+}
+
+function toStoredEntry(entry: SessionIndexEntry, stats: fs.Stats): StoredEntry {
+  return {
+    ...entry,
+    version: INDEX_VERSION,
+    modified: entry.modified.toISOString(),
+    created: entry.created.toISOString(),
+    size: stats.size,
+    mtimeMs: stats.mtimeMs,
+  };
+}
+
+function isUpToDate(stored: StoredEntry | null, stats: fs.Stats) {
+  return (
+    stored?.version === INDEX_VERSION &&
+    stored.size === stats.size &&
+    stored.mtimeMs === stats.mtimeMs
+  );
+}
+
+function fromStoredEntry(stored: StoredEntry): SessionIndexEntry {
+  const {
+    version: _version,
+    size: _size,
+    mtimeMs: _mtimeMs,
+    ...entry
+  } = stored;
+  return {
+    ...entry,
+    modified: new Date(stored.modified),
+    created: new Date(stored.created),
+  };
+}
+
+/**
+ * Index of the sessions of a project, saved next to the session logs so that
+ * listing sessions doesn't parse every log.
+ *
+ * Each session has its own record, so that writing a message only rewrites
+ * the record of its session and concurrent sessions never overwrite each
+ * other. The logger keeps the records up to date as messages are written.
+ * Logs written without it (older versions, copied files) are detected with
+ * their size and mtime and indexed again when the sessions are listed.
+ */
+export class SessionIndex {
+  dir: string;
+  recordsDir: string;
+
+  constructor(opts: { dir: string }) {
+    this.dir = opts.dir;
+    this.recordsDir = path.join(opts.dir, INDEX_DIR_NAME);
+  }
+
+  getRecordPath(sessionId: string) {
+    return path.join(this.recordsDir, `${sessionId}.json`);
+  }
+
+  #read(sessionId: string): StoredEntry | null {
+    try {
+      return JSON.parse(
+        fs.readFileSync(this.getRecordPath(sessionId), 'utf-8'),
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  #write(sessionId: string, stored: StoredEntry) {
+    fs.mkdirSync(this.recordsDir, { recursive: true });
+    const recordPath = this.getRecordPath(sessionId);
+    // Write to a temp file first so readers never see a partial record
+    const tmpPath = `${recordPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(stored), 'utf-8');
+    fs.renameSync(tmpPath, recordPath);
+  }
+
+  #getSessionIds() {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.dir)
+      .filter((file) => file.endsWith('.jsonl'))
+      .map((file) => path.basename(file, '.jsonl'));
+  }
+
+  #getLogPath(sessionId: string) {
+    return path.join(this.dir, `${sessionId}.jsonl`);
+  }
+
+  // The entry of the session, indexed again from its log when the record is
+  // missing or outdated
+  #sync(sessionId: string) {
+    const logPath = this.#getLogPath(sessionId);
+    const stats = fs.statSync(logPath);
+    const stored = this.#read(sessionId);
+    if (stored && isUpToDate(stored, stats)) {
+      return stored;
+    }
+    const updated = toStoredEntry(readSessionIndexEntry(logPath), stats);
+    this.#write(sessionId, updated);
+    return updated;
+  }
+
+  #update(
+    logPath: string,
+    update: (entry: SessionIndexEntry) => SessionIndexEntry,
+  ) {
+    const sessionId = path.basename(logPath, '.jsonl');
+    const stored = this.#read(sessionId);
+    const stats = fs.statSync(logPath);
+    // Without a record the log is indexed in full, it then includes the
+    // update already
+    const entry =
+      stored?.version === INDEX_VERSION
+        ? { ...update(fromStoredEntry(stored)), modified: stats.mtime }
+        : readSessionIndexEntry(logPath);
+    this.#write(sessionId, toStoredEntry(entry, stats));
+  }
+
+  addMessage(logPath: string, message: NormalizedMessage) {
+    this.#update(logPath, (entry) => {
+      if (message.isSidechain) {
+        return entry;
+      }
+      return {
+        ...entry,
+        messageCount: entry.messageCount + 1,
+        summary: entry.summary || getUserMessageSummary(message),
+        model:
+          message.role === 'assistant' && message.model
+            ? message.model
+            : entry.model,
+      };
+    });
+  }
+
+  updateConfig(logPath: string, config: SessionConfig) {
+    this.#update(logPath, (entry) => ({
+      ...entry,
+      summary: getConfigSummary(config) || entry.summary,
+      tags: config.tags,
+      costUSD: config.spend?.costUSD ?? entry.costUSD,
+    }));
+  }
+
+  // For writes that change neither the messages nor the config
+  touch(logPath: string) {
+    this.#update(logPath, (entry) => entry);
+  }
+
+  // Records of deleted logs and the index file of the previous version
+  #removeStale(sessionIds: string[]) {
+    fs.rmSync(path.join(this.dir, LEGACY_INDEX_FILE_NAME), { force: true });
+    if (!fs.existsSync(this.recordsDir)) {
+      return;
+    }
+    const ids = new Set(sessionIds);
+    for (const file of fs.readdirSync(this.recordsDir)) {
+      if (!ids.has(path.basename(file, '.json'))) {
+        fs.rmSync(path.join(this.recordsDir, file), { force: true });
+      }
+    }
+  }
+
+  /**
+   * List the sessions, most recently modified first, optionally only the
+   * ones with all the given tags. New and changed logs are indexed first.
+   */
+  list(opts: { offset?: number; limit?: number; tags?: string[] } = {}) {
+    const { offset = 0, limit = DEFAULT_PAGE_SIZE } = opts;
+    const tags = normalizeTags(opts.tags || []);
+    const sessionIds = this.#getSessionIds();
+    this.#removeStale(sessionIds);
+    const entries = sessionIds
+      .map((sessionId) => fromStoredEntry(this.#sync(sessionId)))
+      .filter((entry) => hasTags(entry, tags))
+      .sort((a, b) => b.modified.getTime() - a.modified.getTime());
+    return {
+      sessions: entries.slice(offset, offset + limit),
+      total: entries.length,
+    };
+  }
+
+  /**
+   * Build the index again from all the session logs, for when it drifted
+   * from the logs. Returns the number of indexed sessions.
+   */
+  rebuild() {
+    const sessionIds = this.#getSessionIds();
+    fs.rmSync(this.recordsDir, { recursive: true, force: true });
+    this.#removeStale(sessionIds);
+    for (const sessionId of sessionIds) {
+      this.#sync(sessionId);
+    }
+    return sessionIds.length;
+  }
+}
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'pathe';
+import { afterEach, beforeEach, expect, test } from 'vitest';
+import { Paths } from './paths';
+import { searchSessions } from './sessionSearch';
+
+let paths: Paths;
+
+function writeSession(
+  sessionId: string,
+  entries: Record<string, any>[],
+  modified = new Date(),
+) {
+  const filePath = paths.getSessionLogPath(sessionId);
+  fs.writeFileSync(
+    filePath,
+    entries
+      .map((entry) => JSON.stringify({ type: 'message', ...entry }))
+      .join('\n') + '\n',
+  );
+  fs.utimesSync(filePath, modified, modified);
+}
+
+beforeEach(() => {
+  paths = new Paths({ productName: 'test', cwd: '/project' });
+  paths.globalProjectDir = fs.mkdtempSync(
+    path.join(os.tmpdir(), 'session-search-'),
+  );
+  writeSession(
+    'websocket',
+    [
+      { role: 'user', content: 'Fix the flaky websocket test' },
+      {
+        role: 'assistant',
+        model: 'anthropic/claude-sonnet-4',
+        content: [
+          { type: 'text', text: 'The test waits for the socket to open.' },
+          {
+            type: 'tool_use',
+            id: '1',
+            name: 'edit',
+            input: { file_path: '/project/src/server.test.ts' },
+          },
+        ],
+      },
+    ],
+    new Date('2025-01-10'),
+  );
+  writeSession(
+    'server',
+    [
+      { role: 'user', content: 'Add a health check to the server' },
+      {
+        role: 'assistant',
+        model: 'openai/gpt-5',
+        content: 'Added GET /health to the server.',
+      },
+    ],
+    new Date('2025-02-10'),
+  );
+});
+
+afterEach(() => {
+  fs.rmSync(paths.globalProjectDir, { recursive: true, force: true });
+});
+
+test('matches all terms across messages, tool names and file paths', () => {
+  expect(
+    searchSessions(paths, { query: 'FLAKY edit' }).map((s) => s.sessionId),
+  ).toEqual(['websocket']);
+  const [result] = searchSessions(paths, { query: 'server.test.ts' });
+  expect(result.sessionId).toBe('websocket');
+  expect(result.matches).toEqual([
+    { kind: 'file', snippet: '/project/src/server.test.ts' },
+  ]);
+  expect(searchSessions(paths, { query: 'flaky health' })).toEqual([]);
+});
+
+test('ranks sessions with more hits first', () => {
+  expect(
+    searchSessions(paths, { query: 'server' }).map((s) => s.sessionId),
+  ).toEqual(['server', 'websocket']);
+});
+
+test('filters by date and model', () => {
+  const search = (opts: Record<string, any>) =>
+    searchSessions(paths, { query: 'server', ...opts }).map((s) => s.sessionId);
+  expect(search({ since: new Date('2025-02-01') })).toEqual(['server']);
+  expect(search({ until: new Date('2025-02-01') })).toEqual(['websocket']);
+  expect(search({ model: 'claude' })).toEqual(['websocket']);
+});
+
+test('searches and filters by tag', () => {
+  writeSession('tagged', [
+    { type: 'config', config: { tags: ['infra'] } },
+    { role: 'user', content: 'Bump the node version of the server' },
+  ]);
+  const [result] = searchSessions(paths, { query: 'infra' });
+  expect(result.sessionId).toBe('tagged');
+  expect(result.matches).toEqual([{ kind: 'tag', snippet: 'infra' }]);
+  expect(
+    searchSessions(paths, { query: 'server', tags: ['#infra'] }).map(
+      (s) => s.sessionId,
+    ),
+  ).toEqual(['tagged']);
+});
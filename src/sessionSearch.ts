@@ -0,0 +1,178 @@
+import fs from 'fs';
+import type { Paths, SessionInfo } from './paths';
+import { hasTags, normalizeTags } from './sessionIndex';
+
+const MAX_SNIPPETS = 3;
+const SNIPPET_RADIUS = 40;
+// Keys of tool params that hold the paths of touched files
+const FILE_PATH_KEYS = ['file_path', 'path', 'notebook_path'];
+
+export type SessionSearchOpts = {
+  query: string;
+  // Only sessions modified in this range
+  since?: Date;
+  until?: Date;
+  // Only sessions with a response of this model, e.g. `anthropic/claude`
+  model?: string;
+  // Only sessions with all these tags
+  tags?: string[];
+  limit?: number;
+};
+
+export type SessionSearchMatch = {
+  kind: 'user' | 'assistant' | 'tool' | 'file' | 'tag';
+  snippet: string;
+};
+
+export type SessionSearchResult = SessionInfo & {
+  matches: SessionSearchMatch[];
+  score: number;
+};
+
+type SearchableText = {
+  kind: SessionSearchMatch['kind'];
+  text: string;
+};
+
+function getTextParts(content: unknown): string[] {
+  if (typeof content === 'string') {
+    return [content];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+  return content
+    .filter((part) => part?.type === 'text' && typeof part.text === 'string')
+    .map((part) => part.text);
+}
+
+function getSearchableTexts(entry: Record<string, any>): SearchableText[] {
+  if (entry.type !== 'message') {
+    return [];
+  }
+  if (entry.role === 'user') {
+    return getTextParts(entry.content).map((text) => ({ kind: 'user', text }));
+  }
+  if (entry.role !== 'assistant') {
+    return [];
+  }
+  const texts: SearchableText[] = getTextParts(entry.content).map((text) => ({
+    kind: 'assistant',
+    text,
+  }));
+  if (Array.isArray(entry.content)) {
+    for (const part of entry.content) {
+      if (part?.type !== 'tool_use') continue;
+      texts.push({ kind: 'tool', text: part.name });
+      for (const key of FILE_PATH_KEYS) {
+        if (typeof part.input?.[key] === 'string') {
+          texts.push({ kind: 'file', text: part.input[key] });
+        }
+      }
+    }
+  }
+  return texts;
+}
+
+function createSnippet(text: string, index: number, length: number) {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '...' : ''}${snippet}${end < text.length ? '...' : ''}`;
+}
+
+function searchSession(
+  logPath: string,
+  terms: string[],
+  opts: { model?: string; tags?: string[] },
+): Omit<SessionSearchResult, keyof SessionInfo> | null {
+  const { model } = opts;
+  const lines = fs.readFileSync(logPath, 'utf-8').split('\n').filter(Boolean);
+  const matchedTerms = new Set<string>();
+  const matches: SessionSearchMatch[] = [];
+  let score = 0;
+  let hasModel = !model;
+  const searchTexts = (texts: SearchableText[]) => {
+    for (const { kind, text } of texts) {
+      const lowerText = text.toLowerCase();
+      for (const term of terms) {
+        const index = lowerText.indexOf(term);
+        if (index === -1) continue;
+        matchedTerms.add(term);
+        score++;
+        if (matches.length < MAX_SNIPPETS) {
+          matches.push({
+            kind,
+            snippet: createSnippet(text, index, term.length),
+          });
+        }
+      }
+    }
+  };
+  searchTexts((opts.tags || []).map((tag) => ({ kind: 'tag', text: tag })));
+  for (const line of lines) {
+    let entry: Record<string, any>;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (
+      !hasModel &&
+      entry.role === 'assistant' &&
+      typeof entry.model === 'string' &&
+      entry.model.toLowerCase().includes(model!.toLowerCase())
+    ) {
+      hasModel = true;
+    }
+    searchTexts(getSearchableTexts(entry));
+  }
+  // Every term must be found somewhere in the session
+  if (!hasModel || matchedTerms.size < terms.length) {
+    return null;
+  }
+  return { matches, score };
+}
+
+/**
+ * Search the tags, user and assistant messages, tool names and touched file
+ * paths of the sessions of a project. Sessions with more hits come first.
+ */
+export function searchSessions(
+  paths: Paths,
+  opts: SessionSearchOpts,
+): SessionSearchResult[] {
+  const terms = opts.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+  const tags = normalizeTags(opts.tags || []);
+  const results: SessionSearchResult[] = [];
+  for (const sessionId of paths.getAllSessionIds()) {
+    const logPath = paths.getSessionLogPath(sessionId);
+    const modified = fs.statSync(logPath).mtime;
+    if (
+      (opts.since && modified < opts.since) ||
+      (opts.until && modified > opts.until)
+    ) {
+      continue;
+    }
+    const info = paths.getSessionInfo(sessionId);
+    if (!hasTags(info, tags)) {
+      continue;
+    }
+    const result = searchSession(logPath, terms, {
+      model: opts.model,
+      tags: info.tags,
+    });
+    if (result) {
+      results.push({ ...info, ...result });
+    }
+  }
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.modified.getTime() - a.modified.getTime(),
+    )
+    .slice(0, opts.limit ?? 50);
+}
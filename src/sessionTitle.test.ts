@@ -0,0 +1,56 @@
+import { expect, test } from 'vitest';
+import type { NormalizedMessage } from './message';
+import { getTitlePrompt, parseTitle } from './sessionTitle';
+
+function message(
+  role: 'user' | 'assistant',
+  content: NormalizedMessage['content'],
+  extra: Record<string, any> = {},
+): NormalizedMessage {
+  return {
+    type: 'message',
+    uuid: `${role}-${Math.random()}`,
+    parentUuid: null,
+    timestamp: new Date().toISOString(),
+    role,
+    content,
+    ...extra,
+  } as NormalizedMessage;
+}
+
+test('builds the prompt from the user and assistant texts', () => {
+  const prompt = getTitlePrompt([
+    message('user', 'Fix the flaky websocket test'),
+    message('user', 'hidden reminder', { hidden: true }),
+    message('assistant', [
+      { type: 'text', text: 'The test waits for the socket.' },
+      { type: 'tool_use', id: 't1', name: 'read', input: {} },
+    ]),
+    message('user', [
+      {
+        type: 'tool_result',
+        id: 't1',
+        name: 'read',
+        input: {},
+        result: { llmContent: 'file content' },
+      },
+    ]),
+  ]);
+  expect(prompt).toBe(
+    'User: Fix the flaky websocket test\n\nAssistant: The test waits for the socket.',
+  );
+  expect(getTitlePrompt([message('user', 'x'.repeat(5000))])).toHaveLength(
+    4000,
+  );
+});
+
+test('parses and trims the generated title', () => {
+  expect(parseTitle('{"title":"  \\"Fix websocket test\\"\\n"}')).toBe(
+    'Fix websocket test',
+  );
+  expect(parseTitle('{"title":""}')).toBeNull();
+  expect(parseTitle('not json')).toBeNull();
+  expect(parseTitle(`{"title":"${'a'.repeat(80)}"}`)).toBe(
+    `${'a'.repeat(60)}...`,
+  );
+});
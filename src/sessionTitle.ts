@@ -0,0 +1,138 @@
+import z from 'zod';
+import { emptySpend, mergeSpend } from './budget';
+import type { Context } from './context';
+import {
+  isToolResultMessage,
+  type NormalizedMessage,
+  type UserMessage,
+} from './message';
+import { resolveModelWithContext } from './model';
+import { query } from './query';
+import { SessionConfigManager } from './session';
+
+// Enough of the conversation to tell what it's about
+const MAX_PROMPT_LENGTH = 4000;
+const MAX_TITLE_LENGTH = 60;
+
+const SYSTEM_PROMPT =
+  "Write a short title of 3 to 7 words for the coding session below, in the language of the conversation. Name the task, e.g. 'Fix flaky websocket reconnect test', not the tools that were used. Format your response as a JSON object with one field: 'title' (string).";
+
+function getText(message: NormalizedMessage) {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  return message.content
+    .filter((part) => part.type === 'text')
+    .map((part) => (part as { text: string }).text)
+    .join('');
+}
+
+/**
+ * The text of the conversation the title is generated from, the user and
+ * assistant texts from the start. After a compaction the history starts
+ * with the summary, so the title follows what the session became.
+ */
+export function getTitlePrompt(messages: NormalizedMessage[]) {
+  let prompt = '';
+  for (const message of messages) {
+    if (
+      (message.role !== 'user' && message.role !== 'assistant') ||
+      (message as UserMessage).hidden ||
+      isToolResultMessage(message)
+    ) {
+      continue;
+    }
+    const text = getText(message).trim();
+    if (!text) continue;
+    prompt += `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}\n\n`;
+    if (prompt.length >= MAX_PROMPT_LENGTH) {
+      return prompt.slice(0, MAX_PROMPT_LENGTH);
+    }
+  }
+  return prompt.trim();
+}
+
+export function parseTitle(text: string) {
+  try {
+    const { title } = JSON.parse(text);
+    if (typeof title !== 'string') {
+      return null;
+    }
+    const normalized = title
+      .replace(/\s+/g, ' ')
+      .trim()
+      .replace(/^["']|["']$/g, '')
+      .trim();
+    if (!normalized) {
+      return null;
+    }
+    return normalized.length > MAX_TITLE_LENGTH
+      ? `${normalized.slice(0, MAX_TITLE_LENGTH)}...`
+      : normalized;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generate the title of a session with the small model and save it in the
+ * session config. Returns null when the client already set a summary, when
+ * there's nothing to generate it from or when the model failed.
+ */
+export async function updateSessionTitle(opts: {
+  context: Context;
+  sessionId: string;
+  messages: NormalizedMessage[];
+}) {
+  const logPath = opts.context.paths.getSessionLogPath(opts.sessionId);
+  if (new SessionConfigManager({ logPath }).config.summary) {
+    return null;
+  }
+  const prompt = getTitlePrompt(opts.messages);
+  if (!prompt) {
+    return null;
+  }
+  const { model } = await resolveModelWithContext(
+    opts.context.config.smallModel || null,
+    opts.context,
+  );
+  // Titles are generated in the background, so their requests would take the
+  // place of the turns in a recorded or replayed fixture
+  if (opts.context.config.record || model?.provider.id === 'replay') {
+    return null;
+  }
+  const spend = emptySpend();
+  let title: string | null = null;
+  try {
+    const result = await query({
+      userPrompt: prompt,
+      context: opts.context,
+      model: model!,
+      budgetSpend: spend,
+      systemPrompt: SYSTEM_PROMPT,
+      responseFormat: {
+        type: 'json',
+        schema: z.toJSONSchema(
+          z.object({
+            title: z.string(),
+          }),
+        ),
+      },
+    });
+    title = result.success ? parseTitle(result.data.text) : null;
+  } finally {
+    // Read the config again, the session may have been written meanwhile
+    const sessionConfigManager = new SessionConfigManager({ logPath });
+    sessionConfigManager.config.spend = mergeSpend(
+      sessionConfigManager.config.spend,
+      emptySpend(),
+      spend,
+    );
+    sessionConfigManager.config.titleAttempted = true;
+    if (title) {
+      sessionConfigManager.config.title = title;
+    }
+    sessionConfigManager.write();
+  }
+  return title;
+}
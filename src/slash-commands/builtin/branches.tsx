@@ -0,0 +1,151 @@
+import { Box, Text, useInput } from 'ink';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import type { SessionBranch } from '../../session';
+import PaginatedSelectInput from '../../ui/PaginatedSelectInput';
+import { useAppStore } from '../../ui/store';
+import type { LocalJSXCommand } from '../types';
+
+interface BranchSelectProps {
+  onExit: () => void;
+  onSelect: (branch: SessionBranch) => void;
+}
+
+function formatTime(timestamp: string) {
+  const date = new Date(timestamp);
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
+}
+
+const BranchSelect: React.FC<BranchSelectProps> = ({ onExit, onSelect }) => {
+  const { bridge, cwd, sessionId, resumeSession } = useAppStore();
+  const [branches, setBranches] = useState<SessionBranch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setLoading(false);
+      return;
+    }
+    bridge
+      .request('session.branches.list', { cwd, sessionId })
+      .then((result) => {
+        setBranches(result.success ? result.data.branches : []);
+        setLoading(false);
+      })
+      .catch((error) => {
+        setError(error.message);
+        setLoading(false);
+      });
+  }, [bridge, cwd, sessionId]);
+
+  useInput((_: string, key) => {
+    if (key.escape) {
+      onExit();
+    }
+  });
+
+  if (loading || error || branches.length === 0) {
+    return (
+      <Box
+        borderStyle="round"
+        borderColor="gray"
+        flexDirection="column"
+        padding={1}
+        width="100%"
+      >
+        {loading ? (
+          <Text>Loading branches...</Text>
+        ) : (
+          <Text color={error ? 'red' : 'yellow'}>
+            {error || 'No branches found.'}
+          </Text>
+        )}
+      </Box>
+    );
+  }
+
+  const selectItems = branches.map((branch) => ({
+    label: [
+      branch.active ? '*' : ' ',
+      formatTime(branch.timestamp).padEnd(22),
+      branch.messageCount.toString().padEnd(8),
+      branch.divergingText.replace(/\s+/g, ' ').slice(0, 60) || '(no text)',
+    ].join(' '),
+    value: branch.leafUuid,
+  }));
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor="gray"
+      flexDirection="column"
+      padding={1}
+      width="100%"
+    >
+      <Box marginBottom={1}>
+        <Text bold>Switch Branch</Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="gray">
+          {'  '}
+          {[
+            ' ',
+            'Last message'.padEnd(22),
+            'Messages'.padEnd(8),
+            'Diverges at',
+          ].join(' ')}
+        </Text>
+      </Box>
+      <Box>
+        <PaginatedSelectInput
+          items={selectItems}
+          initialIndex={Math.max(
+            0,
+            branches.findIndex((branch) => branch.active),
+          )}
+          itemsPerPage={10}
+          onSelect={async (item) => {
+            const branch = branches.find((b) => b.leafUuid === item.value)!;
+            const result = await bridge.request('session.branches.switch', {
+              cwd,
+              sessionId: sessionId!,
+              leafUuid: branch.leafUuid,
+            });
+            if (!result.success) {
+              setError(result.error);
+              return;
+            }
+            await resumeSession(sessionId!, result.data.logFile);
+            onSelect(branch);
+          }}
+        />
+      </Box>
+    </Box>
+  );
+};
+
+export function createBranchesCommand(): LocalJSXCommand {
+  return {
+    type: 'local-jsx',
+    name: 'branches',
+    description: 'List the branches of the conversation and switch to one',
+    async call(onDone) {
+      const BranchesComponent = () => {
+        return (
+          <BranchSelect
+            onExit={() => {
+              onDone('Branch switch cancelled');
+            }}
+            onSelect={(branch) => {
+              onDone(
+                `Switched to the branch of ${branch.messageCount} messages ending at ${formatTime(branch.timestamp)}`,
+              );
+            }}
+          />
+        );
+      };
+      return <BranchesComponent />;
+    },
+  };
+}
@@ -12,8 +12,10 @@ const debug = createDebug('neovate:slash-commands:compact');
 export const compactCommand: LocalJSXCommand = {
   type: 'local-jsx',
   name: 'compact',
-  description: 'Compact conversation history',
-  async call(onDone) {
+  description:
+    'Compact conversation history, optionally with instructions on what to keep',
+  async call(onDone, _context, args) {
+    const instructions = args?.trim() || undefined;
     return React.createElement(() => {
       const { bridge, messages, cwd, sessionId, log } = useAppStore();
       const [loading, setLoading] = React.useState(true);
@@ -47,11 +49,17 @@ export const compactCommand: LocalJSXCommand = {
               cwd,
               messages,
               sessionId,
+              instructions,
             });
 
             if (cancelledRef.current) {
               return;
             }
+            if (!result.success) {
+              setLoading(false);
+              onDone(result.error);
+              return;
+            }
 
             log(`compacted${JSON.stringify(result)}`);
             await bridge.request('session.addMessages', {
@@ -0,0 +1,52 @@
+import React from 'react';
+import {
+  SESSION_EXPORT_FORMATS,
+  type SessionExportFormat,
+} from '../../sessionExport';
+import { useAppStore } from '../../ui/store';
+import type { LocalJSXCommand } from '../types';
+
+export const exportCommand: LocalJSXCommand = {
+  type: 'local-jsx',
+  name: 'export',
+  description:
+    'Export the current session as md, html or json, e.g. /export html',
+  async call(onDone, _context, args) {
+    const [argFormat, output] = (args || '').trim().split(/\s+/);
+    // An empty string splits into ['']
+    const format = argFormat || 'md';
+    return React.createElement(() => {
+      const { bridge, cwd, sessionId } = useAppStore();
+      React.useEffect(() => {
+        if (!SESSION_EXPORT_FORMATS.includes(format as SessionExportFormat)) {
+          onDone(
+            `Invalid format: ${format}, expected one of ${SESSION_EXPORT_FORMATS.join(', ')}`,
+          );
+          return;
+        }
+        if (!sessionId) {
+          onDone('No session to export yet');
+          return;
+        }
+        bridge
+          .request('session.export', {
+            cwd,
+            sessionId,
+            format: format as SessionExportFormat,
+            output,
+          })
+          .then((result) => {
+            onDone(
+              result.success
+                ? `Session exported to ${result.data.filePath}`
+                : `Failed to export session: ${result.error}`,
+            );
+          })
+          .catch((error) => {
+            onDone(`Failed to export session: ${error.message}`);
+          });
+      }, [bridge, cwd, sessionId, onDone]);
+      return null;
+    });
+  },
+};
@@ -1,10 +1,12 @@
 import type { SlashCommand } from '../types';
 import { createAddDirCommand } from './add-dir';
+import { createBranchesCommand } from './branches';
 import { createBugCommand } from './bug';
 import { clearCommand } from './clear';
 import { compactCommand } from './compact';
 import { contextCommand } from './context';
 import { exitCommand } from './exit';
+import { exportCommand } from './export';
 import { helpCommand } from './help';
 import { createInitCommand } from './init';
 import { createLoginCommand } from './login';
@@ -14,11 +16,13 @@ import { createModelCommand } from './model';
 import { createOutputStyleCommand } from './output-style';
 import { createResumeCommand } from './resume';
 import { createReviewCommand } from './review';
+import { createRewindCommand } from './rewind';
 import { brainstormCommand } from './spec/brainstorm';
 import { executePlanCommand } from './spec/execute-plan';
 import { saveDesignCommand } from './spec/save-design';
 import { writePlanCommand } from './spec/write-plan';
 import { statusCommand } from './status';
+import { tagCommand } from './tag';
 import { createTerminalSetupCommand } from './terminal-setup';
 
 export function createBuiltinCommands(opts: {
@@ -31,6 +35,7 @@ export function createBuiltinCommands(opts: {
     clearCommand,
     contextCommand,
     exitCommand,
+    exportCommand,
     helpCommand,
     createInitCommand(opts),
     createLoginCommand(),
@@ -39,11 +44,14 @@ export function createBuiltinCommands(opts: {
     createModelCommand(opts),
     createOutputStyleCommand(),
     createResumeCommand(),
+    createBranchesCommand(),
+    createRewindCommand(),
     createReviewCommand(opts.language),
     createTerminalSetupCommand(),
     createBugCommand(),
     compactCommand,
     statusCommand,
+    tagCommand,
     createAddDirCommand(),
     brainstormCommand(opts.language, opts.askUserQuestion),
     writePlanCommand(opts.language),
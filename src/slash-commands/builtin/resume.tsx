@@ -1,10 +1,12 @@
 import { Box, Text, useInput } from 'ink';
 import type React from 'react';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import PaginatedSelectInput from '../../ui/PaginatedSelectInput';
 import { useAppStore } from '../../ui/store';
 import type { LocalJSXCommand } from '../types';
 
+const SESSIONS_PAGE_SIZE = 50;
+
 interface SessionInfo {
   sessionId: string;
   modified: Date;
@@ -12,36 +14,123 @@ interface SessionInfo {
   messageCount: number;
   gitBranch?: string;
   summary?: string;
+  tags?: string[];
+  // Set on the results of a search
+  matches?: Array<{ snippet: string }>;
+}
+
+// `#tag` words of the query filter the sessions by tag, the other words are
+// searched
+function parseQuery(query: string) {
+  const words = query.split(/\s+/).filter(Boolean);
+  return {
+    text: words.filter((word) => !word.startsWith('#')).join(' '),
+    tags: words.filter((word) => word.startsWith('#')),
+  };
 }
 
 interface ResumeSelectProps {
+  // Only list the sessions matching this search query
+  query?: string;
   onExit: () => void;
   onSelect: (sessionId: string) => void;
 }
 
-const ResumeSelect: React.FC<ResumeSelectProps> = ({ onExit, onSelect }) => {
+const ResumeSelect: React.FC<ResumeSelectProps> = ({
+  query,
+  onExit,
+  onSelect,
+}) => {
   const { bridge, cwd, resumeSession } = useAppStore();
   const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [total, setTotal] = useState<number | undefined>(undefined);
   const [loading, setLoading] = useState(true);
+  // The offset of the page being loaded, so that it's requested once
+  const loadingOffset = useRef<number | null>(null);
+  const { text, tags } = parseQuery(query || '');
+  const tagsKey = tags.join(' ');
 
+  // Search results come at once, the sessions are listed page by page as
+  // the selection reaches the end of the loaded ones
   useEffect(() => {
+    let cancelled = false;
+    const request = text
+      ? bridge
+          .request('sessions.search', {
+            cwd,
+            query: text,
+            tags: tagsKey.split(' ').filter(Boolean),
+          })
+          .then((result) => ({
+            sessions: result.success ? result.data.sessions : [],
+            total: undefined,
+          }))
+      : bridge
+          .request('sessions.list', {
+            cwd,
+            offset: 0,
+            limit: SESSIONS_PAGE_SIZE,
+            tags: tagsKey.split(' ').filter(Boolean),
+          })
+          .then((result) => {
+            if (!result.success || !Array.isArray(result.data?.sessions)) {
+              console.error('Invalid sessions data:', result);
+              return { sessions: [], total: 0 };
+            }
+            return result.data;
+          });
+    request
+      .then((loaded) => {
+        if (cancelled) return;
+        setSessions(loaded.sessions);
+        setTotal(loaded.total);
+        setLoading(false);
+      })
+      .catch((error) => {
+        console.error('Failed to fetch sessions:', error);
+        if (cancelled) return;
+        setSessions([]);
+        setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [bridge, cwd, text, tagsKey]);
+
+  const loadMore = useCallback(() => {
+    const offset = sessions.length;
+    if (
+      total === undefined ||
+      offset >= total ||
+      loadingOffset.current === offset
+    ) {
+      return;
+    }
+    loadingOffset.current = offset;
     bridge
-      .request('sessions.list', { cwd })
+      .request('sessions.list', {
+        cwd,
+        offset,
+        limit: SESSIONS_PAGE_SIZE,
+        tags: tagsKey.split(' ').filter(Boolean),
+      })
       .then((result) => {
-        if (result.success && Array.isArray(result.data?.sessions)) {
-          setSessions(result.data.sessions);
-        } else {
+        if (!result.success || !Array.isArray(result.data?.sessions)) {
           console.error('Invalid sessions data:', result);
-          setSessions([]);
+          return;
         }
-        setLoading(false);
+        setSessions((loaded) =>
+          loaded.length === offset
+            ? [...loaded, ...result.data.sessions]
+            : loaded,
+        );
+        setTotal(result.data.total);
       })
       .catch((error) => {
         console.error('Failed to fetch sessions:', error);
-        setSessions([]);
-        setLoading(false);
+        loadingOffset.current = null;
       });
-  }, [cwd]);
+  }, [bridge, cwd, tagsKey, sessions.length, total]);
 
   useInput((_: string, key) => {
     if (key.escape) {
@@ -73,7 +162,10 @@ const ResumeSelect: React.FC<ResumeSelectProps> = ({ onExit, onSelect }) => {
       formatTime(session.modified).padEnd(12),
       formatTime(session.created).padEnd(12),
       session.messageCount.toString().padEnd(8),
-      session.summary || 'No summary',
+      [
+        session.matches?.[0]?.snippet || session.summary || 'No summary',
+        ...(session.tags || []).map((tag) => `#${tag}`),
+      ].join(' '),
     ].join(' '),
     value: session.sessionId,
   }));
@@ -101,7 +193,9 @@ const ResumeSelect: React.FC<ResumeSelectProps> = ({ onExit, onSelect }) => {
         padding={1}
         width="100%"
       >
-        <Text color="yellow">No sessions found.</Text>
+        <Text color="yellow">
+          {query ? `No sessions found for "${query}".` : 'No sessions found.'}
+        </Text>
       </Box>
     );
   }
@@ -115,7 +209,9 @@ const ResumeSelect: React.FC<ResumeSelectProps> = ({ onExit, onSelect }) => {
       width="100%"
     >
       <Box marginBottom={1}>
-        <Text bold>Resume Session</Text>
+        <Text bold>
+          {query ? `Resume Session matching "${query}"` : 'Resume Session'}
+        </Text>
       </Box>
       <Box marginBottom={1}>
         <Text color="gray">
@@ -124,7 +220,7 @@ const ResumeSelect: React.FC<ResumeSelectProps> = ({ onExit, onSelect }) => {
             'Modified'.padEnd(12),
             'Created'.padEnd(12),
             'Messages'.padEnd(8),
-            'Summary',
+            text ? 'Match' : 'Summary',
           ].join(' ')}
         </Text>
       </Box>
@@ -133,6 +229,8 @@ const ResumeSelect: React.FC<ResumeSelectProps> = ({ onExit, onSelect }) => {
           items={selectItems}
           initialIndex={0}
           itemsPerPage={10}
+          totalItems={total}
+          onReachEnd={loadMore}
           onSelect={async (item) => {
             const result = await bridge.request('sessions.resume', {
               cwd,
@@ -154,11 +252,14 @@ export function createResumeCommand(): LocalJSXCommand {
   return {
     type: 'local-jsx',
     name: 'resume',
-    description: 'Resume from a specific session',
-    async call(onDone) {
+    description:
+      'Resume from a specific session, add a query or #tags to search past sessions',
+    async call(onDone, _context, args) {
+      const query = args?.trim() || undefined;
       const ResumeComponent = () => {
         return (
           <ResumeSelect
+            query={query}
             onExit={() => {
               onDone('Session resume cancelled');
             }}
@@ -0,0 +1,218 @@
+import { Box, Text, useInput } from 'ink';
+import SelectInput from 'ink-select-input';
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import type { RewindPoint } from '../../checkpoint';
+import PaginatedSelectInput from '../../ui/PaginatedSelectInput';
+import { useAppStore } from '../../ui/store';
+import type { LocalJSXCommand } from '../types';
+
+type RewindMode = 'both' | 'conversation' | 'code';
+
+interface RewindSelectProps {
+  onExit: () => void;
+  onDone: (result: string) => void;
+}
+
+function getModeItems(point: RewindPoint) {
+  const canRestoreCode = point.hasCheckpoint && point.changedFiles.length > 0;
+  return [
+    ...(canRestoreCode
+      ? [{ label: 'Restore code and conversation', value: 'both' }]
+      : []),
+    { label: 'Restore conversation only', value: 'conversation' },
+    ...(canRestoreCode ? [{ label: 'Restore code only', value: 'code' }] : []),
+  ];
+}
+
+const RewindSelect: React.FC<RewindSelectProps> = ({ onExit, onDone }) => {
+  const { bridge, cwd, sessionId, fork } = useAppStore();
+  const [points, setPoints] = useState<RewindPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<RewindPoint | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setLoading(false);
+      return;
+    }
+    bridge
+      .request('session.checkpoints.list', { cwd, sessionId })
+      .then((result) => {
+        setPoints(result.success ? result.data.points : []);
+        setLoading(false);
+      })
+      .catch(() => {
+        setPoints([]);
+        setLoading(false);
+      });
+  }, [bridge, cwd, sessionId]);
+
+  useInput((_: string, key) => {
+    if (key.escape) {
+      onExit();
+    }
+  });
+
+  const rewind = async (point: RewindPoint, mode: RewindMode) => {
+    const lines: string[] = [];
+    if (mode !== 'conversation') {
+      const result = await bridge.request('session.rewindCode', {
+        cwd,
+        sessionId: sessionId!,
+        messageUuid: point.checkpointUuid,
+      });
+      if (!result.success) {
+        onDone(`Failed to restore the code: ${result.error}`);
+        return;
+      }
+      lines.push(
+        `Restored ${result.data.restoredFiles.length} file(s)`,
+        ...result.data.restoredFiles.map(
+          (file) => `  ${file.action} ${file.filePath}`,
+        ),
+      );
+    }
+    if (mode !== 'code') {
+      lines.push(
+        (await fork(point.messageUuid))
+          ? 'Rewound the conversation, edit the message and send it'
+          : 'Failed to rewind the conversation, the message was not found',
+      );
+    }
+    if (point.bashCommands.length > 0) {
+      lines.push(
+        "These commands ran since then and their side effects weren't undone:",
+        ...point.bashCommands.map((command) => `  $ ${command}`),
+      );
+    }
+    onDone(lines.join('\n'));
+  };
+
+  if (loading || points.length === 0) {
+    return (
+      <Box
+        borderStyle="round"
+        borderColor="gray"
+        flexDirection="column"
+        padding={1}
+        width="100%"
+      >
+        {loading ? (
+          <Text>Loading checkpoints...</Text>
+        ) : (
+          <Text color="yellow">No messages to rewind to.</Text>
+        )}
+      </Box>
+    );
+  }
+
+  if (selected) {
+    return (
+      <Box
+        borderStyle="round"
+        borderColor="gray"
+        flexDirection="column"
+        padding={1}
+        width="100%"
+      >
+        <Box marginBottom={1}>
+          <Text bold>Rewind to: {selected.text.slice(0, 80)}</Text>
+        </Box>
+        {!selected.hasCheckpoint && (
+          <Text color="yellow">
+            No checkpoint for this message, only the conversation can be
+            restored.
+          </Text>
+        )}
+        {selected.changedFiles.length > 0 && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text>Files changed since then:</Text>
+            {selected.changedFiles.map((filePath) => (
+              <Text key={filePath} color="gray">
+                {'  '}
+                {filePath}
+              </Text>
+            ))}
+          </Box>
+        )}
+        {selected.bashCommands.length > 0 && (
+          <Box flexDirection="column" marginBottom={1}>
+            <Text color="yellow">
+              Commands ran since then, their side effects can't be undone:
+            </Text>
+            {selected.bashCommands.map((command, index) => (
+              <Text key={`${index}-${command}`} color="gray">
+                {'  $ '}
+                {command}
+              </Text>
+            ))}
+          </Box>
+        )}
+        <SelectInput
+          items={getModeItems(selected)}
+          onSelect={(item) => rewind(selected, item.value as RewindMode)}
+        />
+      </Box>
+    );
+  }
+
+  const selectItems = points.map((point) => ({
+    label: [
+      new Date(point.timestamp).toLocaleTimeString().padEnd(12),
+      `${point.changedFiles.length} file(s)`.padEnd(12),
+      point.text.replace(/\s+/g, ' ').slice(0, 60),
+    ].join(' '),
+    value: point.messageUuid,
+  }));
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor="gray"
+      flexDirection="column"
+      padding={1}
+      width="100%"
+    >
+      <Box marginBottom={1}>
+        <Text bold>Rewind</Text>
+      </Box>
+      <Box marginBottom={1}>
+        <Text color="gray">
+          {'  '}
+          {['Sent'.padEnd(12), 'Changed'.padEnd(12), 'Message'].join(' ')}
+        </Text>
+      </Box>
+      <PaginatedSelectInput
+        items={selectItems}
+        itemsPerPage={10}
+        onSelect={(item) => {
+          setSelected(
+            points.find((point) => point.messageUuid === item.value) ?? null,
+          );
+        }}
+      />
+    </Box>
+  );
+};
+
+export function createRewindCommand(): LocalJSXCommand {
+  return {
+    type: 'local-jsx',
+    name: 'rewind',
+    description: 'Restore the code and/or the conversation to a message',
+    async call(onDone) {
+      const RewindComponent = () => {
+        return (
+          <RewindSelect
+            onExit={() => {
+              onDone('Rewind cancelled');
+            }}
+            onDone={onDone}
+          />
+        );
+      };
+      return <RewindComponent />;
+    },
+  };
+}
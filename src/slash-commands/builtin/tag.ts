@@ -0,0 +1,60 @@
+import React from 'react';
+import { useAppStore } from '../../ui/store';
+import type { LocalJSXCommand } from '../types';
+
+function formatTags(tags: string[]) {
+  return tags.map((tag) => `#${tag}`).join(' ');
+}
+
+export const tagCommand: LocalJSXCommand = {
+  type: 'local-jsx',
+  name: 'tag',
+  description:
+    'Tag the current session to find it with /resume #tag, e.g. /tag auth -wip',
+  async call(onDone, _context, args) {
+    const words = (args || '').trim().split(/\s+/).filter(Boolean);
+    // `-tag` removes a tag, the other words are added
+    const removed = words
+      .filter((word) => word.startsWith('-'))
+      .map((word) => word.slice(1).replace(/^#+/, ''));
+    const added = words.filter((word) => !word.startsWith('-'));
+    return React.createElement(() => {
+      const { bridge, cwd, sessionId } = useAppStore();
+      React.useEffect(() => {
+        if (!sessionId) {
+          onDone('No session to tag yet');
+          return;
+        }
+        (async () => {
+          const current = await bridge.request('session.config.get', {
+            cwd,
+            sessionId,
+            key: 'tags',
+          });
+          const tags: string[] = current.data?.value || [];
+          if (words.length === 0) {
+            onDone(
+              tags.length > 0
+                ? `Tags: ${formatTags(tags)}`
+                : 'No tags, add some with /tag <tag>',
+            );
+            return;
+          }
+          const result = await bridge.request('session.config.setTags', {
+            cwd,
+            sessionId,
+            tags: [...tags, ...added].filter((tag) => !removed.includes(tag)),
+          });
+          onDone(
+            result.data.tags.length > 0
+              ? `Tags: ${formatTags(result.data.tags)}`
+              : 'All tags removed',
+          );
+        })().catch((error) => {
+          onDone(`Failed to update the tags: ${error.message}`);
+        });
+      }, [bridge, cwd, sessionId, onDone]);
+      return null;
+    });
+  },
+};
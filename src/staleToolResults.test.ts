@@ -0,0 +1,132 @@
+import { expect, test } from 'vitest';
+import type { NormalizedMessage } from './message';
+import {
+  applyClearedToolResults,
+  findLargestToolResults,
+  findStaleToolResults,
+} from './staleToolResults';
+
+const LONG_OUTPUT = Array.from({ length: 200 }, (_, i) => `line ${i}`).join(
+  '\n',
+);
+
+let uuid = 0;
+
+function user(content: string): NormalizedMessage {
+  return {
+    type: 'message',
+    uuid: String(uuid++),
+    parentUuid: null,
+    timestamp: new Date().toISOString(),
+    role: 'user',
+    content,
+  };
+}
+
+function tool(
+  toolName: string,
+  input: Record<string, any>,
+  llmContent = LONG_OUTPUT,
+): NormalizedMessage {
+  const id = String(uuid++);
+  return {
+    type: 'message',
+    uuid: id,
+    parentUuid: null,
+    timestamp: new Date().toISOString(),
+    role: 'tool',
+    content: [
+      {
+        type: 'tool-result',
+        toolCallId: `call_${id}`,
+        toolName,
+        input,
+        result: { llmContent },
+      },
+    ],
+  };
+}
+
+test('clears reads of files that were edited later', () => {
+  const read = tool('read', { file_path: '/a.ts' });
+  const otherRead = tool('read', { file_path: '/b.ts' });
+  const messages = [
+    user('fix a.ts'),
+    read,
+    otherRead,
+    tool('edit', { file_path: '/a.ts' }, 'ok'),
+  ];
+  const cleared = findStaleToolResults(messages, '/');
+  expect(cleared).toHaveLength(1);
+  expect(cleared[0]).toMatchObject({
+    messageUuid: read.uuid,
+    toolName: 'read',
+  });
+  expect(cleared[0].placeholder).toContain('Read the file again');
+});
+
+test('matches relative and absolute paths of the same file', () => {
+  const relativeRead = tool('read', { file_path: 'src/a.ts' });
+  const absoluteRead = tool('read', { file_path: '/project/src/b.ts' });
+  const messages = [
+    user('fix a.ts and b.ts'),
+    relativeRead,
+    absoluteRead,
+    tool('edit', { file_path: '/project/src/a.ts' }, 'ok'),
+    tool('write', { file_path: './src/b.ts' }, 'ok'),
+  ];
+  const cleared = findStaleToolResults(messages, '/project');
+  expect(cleared.map((item) => item.messageUuid)).toEqual([
+    relativeRead.uuid,
+    absoluteRead.uuid,
+  ]);
+});
+
+test('clears outputs of commands that were run again later', () => {
+  const first = tool('bash', { command: 'pnpm test' });
+  const messages = [
+    user('fix the tests'),
+    first,
+    tool('bash', { command: ' pnpm test ' }),
+  ];
+  const cleared = findStaleToolResults(messages, '/');
+  expect(cleared.map((item) => item.messageUuid)).toEqual([first.uuid]);
+});
+
+test('clears large grep results of previous turns only', () => {
+  const largeOutput = Array(10).fill(LONG_OUTPUT).join('\n');
+  const previous = tool('grep', { pattern: 'foo' }, largeOutput);
+  const current = tool('grep', { pattern: 'bar' }, largeOutput);
+  const messages = [user('find foo'), previous, user('find bar'), current];
+  const cleared = findStaleToolResults(messages, '/');
+  expect(cleared.map((item) => item.messageUuid)).toEqual([previous.uuid]);
+  expect(cleared[0].placeholder).toContain('2000 lines of grep results');
+});
+
+test('skips small results and results cleared before', () => {
+  const messages = [
+    user('fix a.ts'),
+    tool('read', { file_path: '/a.ts' }, 'short'),
+    tool('edit', { file_path: '/a.ts' }, 'ok'),
+  ];
+  expect(findStaleToolResults(messages, '/')).toEqual([]);
+
+  const read = tool('read', { file_path: '/b.ts' });
+  const edited = [read, tool('write', { file_path: '/b.ts' }, 'ok')];
+  const clearedMessages = applyClearedToolResults(
+    edited,
+    findStaleToolResults(edited, '/'),
+  );
+  expect(clearedMessages[0]).not.toBe(read);
+  expect(findStaleToolResults(clearedMessages, '/')).toEqual([]);
+});
+
+test('clears the largest tool results first until enough is saved', () => {
+  const small = tool('read', { file_path: '/a.ts' });
+  const large = tool('read', { file_path: '/b.ts' }, LONG_OUTPUT.repeat(3));
+  const messages = [user('read a.ts and b.ts'), small, large];
+  const cleared = findLargestToolResults(messages, 10);
+  expect(cleared.map((item) => item.messageUuid)).toEqual([large.uuid]);
+  expect(cleared[0].placeholder).toContain("didn't fit in the context window");
+  expect(findLargestToolResults(messages, Infinity)).toHaveLength(2);
+});
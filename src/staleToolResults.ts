@@ -0,0 +1,239 @@
+import path from 'pathe';
+import { TOOL_NAMES } from './constants';
+import type {
+  NormalizedMessage,
+  ToolResultPart2,
+  UserMessage,
+} from './message';
+import { countTokens } from './utils/tokenCounter';
+
+// Results smaller than this aren't worth clearing
+const MIN_CLEARED_TOKENS = 100;
+// Search results above this are cleared once their turn is over
+const LARGE_SEARCH_RESULT_TOKENS = 2_000;
+const EDIT_TOOL_NAMES = [
+  'edit',
+  TOOL_NAMES.MULTI_EDIT,
+  TOOL_NAMES.NOTEBOOK_EDIT,
+  'write',
+];
+const CLEARED_PREFIX = '[Cleared to save context:';
+
+/**
+ * A tool result whose content was swapped for a placeholder before
+ * compaction, saved in the session log as a `tool_results_cleared` entry.
+ */
+export type ClearedToolResult = {
+  messageUuid: string;
+  toolCallId: string;
+  toolName: string;
+  placeholder: string;
+  tokens: number;
+};
+
+export type ToolResultsClearedEntry = {
+  type: 'tool_results_cleared';
+  timestamp: string;
+  cleared: ClearedToolResult[];
+};
+
+function isToolResultContent(content: unknown) {
+  return (
+    Array.isArray(content) &&
+    content.some((part: any) => part.type === 'tool_result')
+  );
+}
+
+function getContentTokens(part: ToolResultPart2) {
+  const llmContent = part.result.llmContent;
+  return countTokens(
+    typeof llmContent === 'string' ? llmContent : JSON.stringify(llmContent),
+  );
+}
+
+function getPlaceholder(
+  part: ToolResultPart2,
+  reason: 'edited' | 'rerun' | 'large',
+) {
+  const { input } = part;
+  switch (reason) {
+    case 'edited':
+      return `${CLEARED_PREFIX} the content of ${input.file_path} was read before the file was edited. Read the file again if you need it.]`;
+    case 'rerun':
+      return `${CLEARED_PREFIX} the output of \`${input.command}\`, the command was run again later. Run it again if you need the output.]`;
+    case 'large': {
+      const llmContent = part.result.llmContent;
+      const lines =
+        typeof llmContent === 'string' ? llmContent.split('\n').length : 0;
+      return `${CLEARED_PREFIX} ${lines} lines of ${part.toolName} results for "${input.pattern}". Run the search again if you need them.]`;
+    }
+  }
+}
+
+/**
+ * Find the tool results that are not useful anymore and can be cleared
+ * before paying for a full compaction:
+ * - `read` results of files that were edited later
+ * - `bash` results of commands that were run again later
+ * - large `grep` results of the previous turns
+ *
+ * Relative file paths are resolved against `cwd` so that a relative read and
+ * an absolute edit of the same file match.
+ */
+export function findStaleToolResults(
+  messages: NormalizedMessage[],
+  cwd: string,
+): ClearedToolResult[] {
+  const resolvePath = (filePath: unknown) =>
+    typeof filePath === 'string' ? path.resolve(cwd, filePath) : undefined;
+  let lastTurnStart = 0;
+  messages.forEach((message, index) => {
+    if (
+      message.role === 'user' &&
+      !(message as UserMessage).hidden &&
+      !isToolResultContent(message.content)
+    ) {
+      lastTurnStart = index;
+    }
+  });
+
+  // Walk backward so that what happens later is known for each result
+  const editedFiles = new Set<string>();
+  const commands = new Set<string>();
+  const cleared: ClearedToolResult[] = [];
+  for (let index = messages.length - 1; index >= 0; index--) {
+    const message = messages[index];
+    if (message.role !== 'tool') {
+      continue;
+    }
+    for (const part of [...message.content].reverse()) {
+      const { toolName, input } = part;
+      let reason: 'edited' | 'rerun' | 'large' | null = null;
+      const filePath = resolvePath(input.file_path ?? input.notebook_path);
+      if (toolName === 'read' && filePath && editedFiles.has(filePath)) {
+        reason = 'edited';
+      } else if (
+        toolName === TOOL_NAMES.BASH &&
+        commands.has(input.command?.trim())
+      ) {
+        reason = 'rerun';
+      } else if (
+        toolName === TOOL_NAMES.GREP &&
+        index < lastTurnStart &&
+        getContentTokens(part) > LARGE_SEARCH_RESULT_TOKENS
+      ) {
+        reason = 'large';
+      }
+      if (EDIT_TOOL_NAMES.includes(toolName) && filePath) {
+        editedFiles.add(filePath);
+      } else if (toolName === TOOL_NAMES.BASH) {
+        commands.add(input.command?.trim());
+      }
+
+      if (
+        !reason ||
+        part.result.isError ||
+        typeof part.result.llmContent !== 'string' ||
+        part.result.llmContent.startsWith(CLEARED_PREFIX)
+      ) {
+        continue;
+      }
+      const placeholder = getPlaceholder(part, reason);
+      const tokens = getContentTokens(part) - countTokens(placeholder);
+      if (tokens < MIN_CLEARED_TOKENS) {
+        continue;
+      }
+      cleared.unshift({
+        messageUuid: message.uuid,
+        toolCallId: part.toolCallId,
+        toolName,
+        placeholder,
+        tokens,
+      });
+    }
+  }
+  return cleared;
+}
+
+/**
+ * Pick the largest tool results to clear when the prompt doesn't fit in the
+ * context window, until at least `tokens` tokens are saved.
+ */
+export function findLargestToolResults(
+  messages: NormalizedMessage[],
+  tokens: number,
+): ClearedToolResult[] {
+  const candidates: ClearedToolResult[] = [];
+  for (const message of messages) {
+    if (message.role !== 'tool') {
+      continue;
+    }
+    for (const part of message.content) {
+      const llmContent = part.result.llmContent;
+      if (
+        typeof llmContent !== 'string' ||
+        llmContent.startsWith(CLEARED_PREFIX)
+      ) {
+        continue;
+      }
+      const contentTokens = getContentTokens(part);
+      const placeholder = `${CLEARED_PREFIX} the ${part.toolName} result of ~${contentTokens} tokens didn't fit in the context window. Run the tool again with a narrower scope if you need it.]`;
+      const savedTokens = contentTokens - countTokens(placeholder);
+      if (savedTokens < MIN_CLEARED_TOKENS) {
+        continue;
+      }
+      candidates.push({
+        messageUuid: message.uuid,
+        toolCallId: part.toolCallId,
+        toolName: part.toolName,
+        placeholder,
+        tokens: savedTokens,
+      });
+    }
+  }
+
+  const cleared: ClearedToolResult[] = [];
+  let clearedTokens = 0;
+  for (const candidate of candidates.sort((a, b) => b.tokens - a.tokens)) {
+    if (clearedTokens >= tokens) break;
+    cleared.push(candidate);
+    clearedTokens += candidate.tokens;
+  }
+  return cleared;
+}
+
+/**
+ * Swap the content of the cleared tool results for their placeholders, the
+ * messages are copied so the originals are left untouched.
+ */
+export function applyClearedToolResults(
+  messages: NormalizedMessage[],
+  cleared: ClearedToolResult[],
+): NormalizedMessage[] {
+  if (cleared.length === 0) {
+    return messages;
+  }
+  const placeholders = new Map(
+    cleared.map((item) => [
+      `${item.messageUuid}:${item.toolCallId}`,
+      item.placeholder,
+    ]),
+  );
+  return messages.map((message) => {
+    if (message.role !== 'tool') {
+      return message;
+    }
+    let changed = false;
+    const content = message.content.map((part) => {
+      const placeholder = placeholders.get(
+        `${message.uuid}:${part.toolCallId}`,
+      );
+      if (placeholder === undefined) {
+        return part;
+      }
+      changed = true;
+      return { ...part, result: { ...part.result, llmContent: placeholder } };
+    });
+    return changed ? { ...message, content } : message;
+  });
+}
@@ -1,6 +1,11 @@
+import type { LanguageModelV2StreamPart } from '@ai-sdk/provider';
+import fs from 'fs';
+import os from 'os';
+import path from 'pathe';
 import { describe, expect, test, vi } from 'vitest';
+import { z } from 'zod';
 import type { Context } from './context';
-import { resolveTools } from './tool';
+import { createTool, resolveTools, Tools } from './tool';
 
 describe('resolveTools with tools config', () => {
   const createMockContext = (
@@ -145,3 +150,225 @@ describe('resolveTools with tools config', () => {
     expect(toolNames).toContain('write');
   });
 });
+
+describe('Tools.invoke params validation', () => {
+  const createTestTools = (opts: { coerceParams?: boolean } = {}) => {
+    const execute = vi.fn().mockResolvedValue({ llmContent: 'ok' });
+    const tool = createTool({
+      name: 'test',
+      description: 'test tool',
+      parameters: z.object({
+        file_path: z.string(),
+        limit: z.number().optional(),
+        recursive: z.boolean().optional(),
+        paths: z.array(z.string()).optional(),
+      }),
+      execute,
+    });
+    const mcpExecute = vi.fn().mockResolvedValue({ llmContent: 'ok' });
+    const mcpTool = {
+      name: 'mcp__server__search',
+      description: 'mcp tool',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          limit: { type: 'integer' },
+        },
+        required: ['query'],
+      },
+      execute: mcpExecute,
+    } as any;
+    return {
+      tools: new Tools([tool, mcpTool], opts),
+      execute,
+      mcpExecute,
+    };
+  };
+
+  test('should return field-level errors for invalid params', async () => {
+    const { tools, execute } = createTestTools();
+    const result = await tools.invoke(
+      'test',
+      JSON.stringify({ file_path: 1, limit: 'ten' }),
+    );
+    expect(result.isError).toBe(true);
+    expect(result.llmContent).toContain('Invalid parameters for tool test');
+    expect(result.llmContent).toContain('- file_path:');
+    expect(result.llmContent).toContain('- limit:');
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  test('should execute with valid params', async () => {
+    const { tools, execute } = createTestTools();
+    const result = await tools.invoke(
+      'test',
+      JSON.stringify({ file_path: 'a.ts', limit: 10 }),
+    );
+    expect(result.isError).toBeUndefined();
+    expect(execute).toHaveBeenCalledWith(
+      { file_path: 'a.ts', limit: 10 },
+      undefined,
+    );
+  });
+
+  test('should coerce common mistakes when enabled', async () => {
+    const { tools, execute } = createTestTools({ coerceParams: true });
+    const result = await tools.invoke(
+      'test',
+      JSON.stringify({
+        file_path: 'a.ts',
+        limit: '10',
+        recursive: 'true',
+        paths: '["a", "b"]',
+      }),
+    );
+    expect(result.isError).toBeUndefined();
+    expect(execute).toHaveBeenCalledWith(
+      {
+        file_path: 'a.ts',
+        limit: 10,
+        recursive: true,
+        paths: ['a', 'b'],
+      },
+      undefined,
+    );
+  });
+
+  test('should drop null optional fields when coercing', async () => {
+    const { tools, execute } = createTestTools({ coerceParams: true });
+    await tools.invoke(
+      'test',
+      JSON.stringify({ file_path: 'a.ts', limit: null }),
+    );
+    expect(execute).toHaveBeenCalledWith({ file_path: 'a.ts' }, undefined);
+  });
+
+  test('should validate mcp tools with json schema', async () => {
+    const { tools, mcpExecute } = createTestTools();
+    const result = await tools.invoke(
+      'mcp__server__search',
+      JSON.stringify({ limit: 1.5 }),
+    );
+    expect(result.isError).toBe(true);
+    expect(result.llmContent).toContain('- query:');
+    expect(result.llmContent).toContain('- limit:');
+    expect(mcpExecute).not.toHaveBeenCalled();
+  });
+
+  test('should coerce mcp tool params when enabled', async () => {
+    const { tools, mcpExecute } = createTestTools({ coerceParams: true });
+    await tools.invoke(
+      'mcp__server__search',
+      JSON.stringify({ query: 'foo', limit: '5' }),
+    );
+    expect(mcpExecute).toHaveBeenCalledWith(
+      { query: 'foo', limit: 5 },
+      undefined,
+    );
+  });
+});
+
+describe('resolveTools file states', () => {
+  const finish: LanguageModelV2StreamPart = {
+    type: 'finish',
+    finishReason: 'stop',
+    usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+  };
+
+  const createFakeProvider = (steps: LanguageModelV2StreamPart[][]) => ({
+    id: 'fake',
+    name: 'Fake',
+    models: {
+      model: {
+        name: 'Fake',
+        limit: { context: 200000, output: 0 },
+        modalities: { input: ['text'], output: ['text'] },
+      },
+    },
+    createModel: () => ({
+      specificationVersion: 'v2',
+      provider: 'fake',
+      modelId: 'model',
+      supportedUrls: {},
+      async doStream() {
+        const chunks = steps.shift()!;
+        return {
+          stream: new ReadableStream({
+            start(controller) {
+              for (const chunk of chunks) controller.enqueue(chunk);
+              controller.close();
+            },
+          }),
+        };
+      },
+    }),
+  });
+
+  test('a read of the task sub-agent does not allow the main agent to edit the file', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'neovate-tool-'));
+    try {
+      const filePath = path.join(tmpDir, 'a.ts');
+      fs.writeFileSync(filePath, 'const a = 1;\n');
+      const provider = createFakeProvider([
+        [
+          {
+            type: 'tool-call',
+            toolCallId: 'read-1',
+            toolName: 'read',
+            input: JSON.stringify({ file_path: filePath }),
+          },
+          finish,
+        ],
+        [
+          { type: 'text-start', id: '1' },
+          { type: 'text-delta', id: '1', delta: 'a is 1' },
+          { type: 'text-end', id: '1' },
+          finish,
+        ],
+      ]);
+      const context = {
+        cwd: tmpDir,
+        productName: 'test',
+        paths: {
+          globalConfigDir: tmpDir,
+          globalProjectDir: tmpDir,
+          getSessionLogPath: () => path.join(tmpDir, 'session.jsonl'),
+        },
+        config: { model: 'fake/model' },
+        backgroundTaskManager: {} as any,
+        mcpManager: {
+          initAsync: vi.fn().mockResolvedValue(undefined),
+          getAllTools: vi.fn().mockResolvedValue([]),
+        },
+        skillManager: { getSkills: vi.fn().mockReturnValue([]) },
+        apply: vi.fn(async ({ hook, memo }) =>
+          hook === 'provider' ? { fake: provider } : memo,
+        ),
+      } as unknown as Context;
+      const tools = new Tools(
+        await resolveTools({ context, sessionId: 'test-session', write: true }),
+      );
+
+      const taskResult = await tools.invoke(
+        'task',
+        JSON.stringify({ description: 'Read a.ts', prompt: 'Read a.ts' }),
+      );
+      expect(taskResult.llmContent).toBe('a is 1');
+
+      const editResult = await tools.invoke(
+        'edit',
+        JSON.stringify({
+          file_path: filePath,
+          old_string: 'const a = 1;',
+          new_string: 'const a = 2;',
+        }),
+      );
+      expect(editResult.isError).toBe(true);
+      expect(editResult.llmContent).toContain('has not been read yet');
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('const a = 1;\n');
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,9 +1,13 @@
 import type { LanguageModelV2FunctionTool } from '@ai-sdk/provider';
+import Ajv, { type ValidateFunction } from 'ajv';
 import path from 'pathe';
 import * as z from 'zod';
+import type { BudgetSpend } from './budget';
+import { CheckpointStore, getCheckpointDir } from './checkpoint';
 import type { Context } from './context';
+import { FileStateTracker, getFileStatePath } from './fileState';
 import type { ImagePart, TextPart } from './message';
-import { resolveModelWithContext } from './model';
+import { resolveModelWithContext, withRecording } from './model';
 import { createAskUserQuestionTool } from './tools/askUserQuestion';
 import {
   createBashOutputTool,
@@ -15,8 +19,11 @@ import { createFetchTool } from './tools/fetch';
 import { createGlobTool } from './tools/glob';
 import { createGrepTool } from './tools/grep';
 import { createLSTool } from './tools/ls';
+import { createMultiEditTool } from './tools/multiEdit';
+import { createNotebookEditTool } from './tools/notebookEdit';
 import { createReadTool } from './tools/read';
 import { createSkillTool } from './tools/skill';
+import { createTaskTool } from './tools/task';
 import { createTodoTool, type TodoItem } from './tools/todo';
 import { createWriteTool } from './tools/write';
 
@@ -32,12 +39,19 @@ export async function resolveTools(opts: ResolveToolsOpts) {
   const { cwd, productName, paths } = opts.context;
   const sessionId = opts.sessionId;
   // TODO: use small model for fetch tool
-  const model = (
-    await resolveModelWithContext(opts.context.config.model, opts.context)
-  ).model!;
+  const model = withRecording(
+    (await resolveModelWithContext(opts.context.config.model, opts.context))
+      .model!,
+    opts.context,
+  );
   const hasSkills = opts.context.skillManager.getSkills().length > 0;
-  const readonlyTools = [
-    createReadTool({ cwd, productName }),
+  const vision = model?.model.modalities?.input.some(
+    (modality) => modality === 'image' || modality === 'pdf',
+  );
+  const fileStates = new FileStateTracker({
+    filePath: getFileStatePath(paths, sessionId),
+  });
+  const searchTools = [
     createLSTool({ cwd }),
     createGlobTool({ cwd }),
     createGrepTool({ cwd }),
@@ -46,13 +60,32 @@ export async function resolveTools(opts: ResolveToolsOpts) {
       ? [createSkillTool({ skillManager: opts.context.skillManager })]
       : []),
   ];
+  const readonlyTools = [
+    createReadTool({ cwd, productName, fileStates, vision }),
+    ...searchTools,
+  ];
+  const taskTools = [
+    createTaskTool({
+      context: opts.context,
+      sessionId,
+      model,
+      // The reads of the sub-agent are not tracked, the main agent has to
+      // read a file itself before it can edit it
+      tools: [createReadTool({ cwd, productName, vision }), ...searchTools],
+    }),
+  ];
   const askUserQuestionTools = opts.askUserQuestion
     ? [createAskUserQuestionTool()]
     : [];
+  const checkpoints = new CheckpointStore({
+    dir: getCheckpointDir(paths, sessionId),
+  });
   const writeTools = opts.write
     ? [
-        createWriteTool({ cwd }),
-        createEditTool({ cwd }),
+        createWriteTool({ cwd, checkpoints, fileStates }),
+        createEditTool({ cwd, checkpoints, fileStates }),
+        createMultiEditTool({ cwd, checkpoints, fileStates }),
+        createNotebookEditTool({ cwd, checkpoints, fileStates }),
         createBashTool({
           cwd,
           backgroundTaskManager: opts.context.backgroundTaskManager,
@@ -81,6 +114,7 @@ export async function resolveTools(opts: ResolveToolsOpts) {
 
   const allTools = [
     ...readonlyTools,
+    ...taskTools,
     ...askUserQuestionTools,
     ...writeTools,
     ...todoTools,
@@ -113,7 +147,9 @@ async function getMcpTools(context: Context): Promise<Tool[]> {
 
 export class Tools {
   tools: Record<string, Tool>;
-  constructor(tools: Tool[]) {
+  coerceParams: boolean;
+  constructor(tools: Tool[], opts: { coerceParams?: boolean } = {}) {
+    this.coerceParams = opts.coerceParams ?? false;
     this.tools = tools.reduce(
       (acc, tool) => {
         acc[tool.name] = tool;
@@ -131,7 +167,11 @@ export class Tools {
     return Object.keys(this.tools).length;
   }
 
-  async invoke(toolName: string, args: string): Promise<ToolResult> {
+  async invoke(
+    toolName: string,
+    args: string,
+    executeOpts?: ToolExecuteOpts,
+  ): Promise<ToolResult> {
     const tool = this.tools[toolName];
     if (!tool) {
       return {
@@ -139,14 +179,6 @@ export class Tools {
         isError: true,
       };
     }
-    // // @ts-expect-error
-    // const result = validateToolParams(tool.parameters, args);
-    // if (!result.success) {
-    //   return {
-    //     llmContent: `Invalid tool parameters: ${result.error}`,
-    //     isError: true,
-    //   };
-    // }
     let argsObj: any;
     try {
       argsObj = JSON.parse(args);
@@ -156,7 +188,19 @@ export class Tools {
         isError: true,
       };
     }
-    return await tool.execute(argsObj);
+    const result = validateToolParams(tool, argsObj, {
+      coerce: this.coerceParams,
+    });
+    if (!result.success) {
+      return {
+        llmContent: formatToolParamsErrors(toolName, result.errors),
+        returnDisplay: `Invalid parameters: ${result.errors
+          .map((error) => error.path || error.message)
+          .join(', ')}`,
+        isError: true,
+      };
+    }
+    return await tool.execute(result.params, executeOpts);
   }
 
   toLanguageV2Tools(): LanguageModelV2FunctionTool[] {
@@ -184,33 +228,218 @@ export class Tools {
   }
 }
 
-// function validateToolParams(schema: z.ZodObject<any>, params: string) {
-//   try {
-//     if (isZodObject(schema)) {
-//       const parsedParams = JSON.parse(params);
-//       const result = schema.safeParse(parsedParams);
-//       if (!result.success) {
-//         return {
-//           success: false,
-//           error: `Parameter validation failed: ${result.error.message}`,
-//         };
-//       }
-//       return {
-//         success: true,
-//         message: 'Tool parameters validated successfully',
-//       };
-//     }
-//     return {
-//       success: true,
-//       message: 'Tool parameters validated successfully',
-//     };
-//   } catch (error) {
-//     return {
-//       success: false,
-//       error: error,
-//     };
-//   }
-// }
+type ToolParamsError = {
+  path: string;
+  message: string;
+};
+
+type ToolParamsValidationResult =
+  | {
+      success: true;
+      params: Record<string, any>;
+    }
+  | {
+      success: false;
+      errors: ToolParamsError[];
+    };
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+// Compiled validators of mcp tools, null when the schema can't be compiled
+const jsonSchemaValidators = new WeakMap<object, ValidateFunction | null>();
+const toolJsonSchemas = new WeakMap<Tool, any>();
+
+function isMcpTool(tool: Tool) {
+  return tool.name.startsWith('mcp__');
+}
+
+function getJsonSchemaValidator(schema: any) {
+  if (!schema || typeof schema !== 'object') {
+    return null;
+  }
+  if (!jsonSchemaValidators.has(schema)) {
+    let validator: ValidateFunction | null = null;
+    try {
+      validator = ajv.compile(schema);
+    } catch {
+      // Skip validation for schemas ajv doesn't support
+    }
+    jsonSchemaValidators.set(schema, validator);
+  }
+  return jsonSchemaValidators.get(schema)!;
+}
+
+function getToolJsonSchema(tool: Tool) {
+  if (isMcpTool(tool)) {
+    return tool.parameters;
+  }
+  if (!toolJsonSchemas.has(tool)) {
+    let schema: any = null;
+    try {
+      schema = z.toJSONSchema(tool.parameters);
+    } catch {}
+    toolJsonSchemas.set(tool, schema);
+  }
+  return toolJsonSchemas.get(tool);
+}
+
+function checkToolParams(tool: Tool, params: any): ToolParamsValidationResult {
+  if (isMcpTool(tool)) {
+    const validate = getJsonSchemaValidator(tool.parameters);
+    if (!validate || validate(params)) {
+      return { success: true, params };
+    }
+    return {
+      success: false,
+      errors: (validate.errors || []).map((error) => {
+        const segments = error.instancePath.split('/').filter(Boolean);
+        if (error.keyword === 'required') {
+          segments.push(error.params.missingProperty);
+        }
+        return {
+          path: segments.join('.'),
+          message: error.message || 'Invalid value',
+        };
+      }),
+    };
+  }
+  const result = tool.parameters.safeParse(params);
+  if (result.success) {
+    return { success: true, params: result.data as Record<string, any> };
+  }
+  return {
+    success: false,
+    errors: result.error.issues.map((issue) => ({
+      path: issue.path.map(String).join('.'),
+      message: issue.message,
+    })),
+  };
+}
+
+function getSchemaTypes(schema: any): Set<string> {
+  const types = new Set<string>();
+  if (!schema || typeof schema !== 'object') {
+    return types;
+  }
+  if (typeof schema.type === 'string') {
+    types.add(schema.type);
+  } else if (Array.isArray(schema.type)) {
+    for (const type of schema.type) types.add(type);
+  }
+  for (const subSchema of [...(schema.anyOf || []), ...(schema.oneOf || [])]) {
+    for (const type of getSchemaTypes(subSchema)) types.add(type);
+  }
+  return types;
+}
+
+function findSubSchema(schema: any, key: 'properties' | 'items') {
+  if (!schema || typeof schema !== 'object') {
+    return undefined;
+  }
+  if (schema[key]) {
+    return schema;
+  }
+  return [...(schema.anyOf || []), ...(schema.oneOf || [])].find(
+    (subSchema: any) => subSchema?.[key],
+  );
+}
+
+/**
+ * Fix common model mistakes guided by the json schema, e.g. numbers or
+ * booleans sent as strings, arrays or objects sent as json strings and null
+ * sent for optional fields.
+ */
+export function coerceToolParams(value: any, schema: any): any {
+  const types = getSchemaTypes(schema);
+  if (typeof value === 'string' && !types.has('string')) {
+    const trimmed = value.trim();
+    if (
+      (types.has('number') || types.has('integer')) &&
+      trimmed !== '' &&
+      !Number.isNaN(Number(trimmed))
+    ) {
+      return Number(trimmed);
+    }
+    if (types.has('boolean') && (trimmed === 'true' || trimmed === 'false')) {
+      return trimmed === 'true';
+    }
+    if (types.has('array') || types.has('object')) {
+      let parsed: any;
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch {
+        return value;
+      }
+      const isArray = Array.isArray(parsed);
+      if (
+        (isArray && types.has('array')) ||
+        (!isArray &&
+          parsed &&
+          typeof parsed === 'object' &&
+          types.has('object'))
+      ) {
+        return coerceToolParams(parsed, schema);
+      }
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    const itemsSchema = findSubSchema(schema, 'items')?.items;
+    return itemsSchema
+      ? value.map((item) => coerceToolParams(item, itemsSchema))
+      : value;
+  }
+  if (value && typeof value === 'object') {
+    const objectSchema = findSubSchema(schema, 'properties');
+    if (!objectSchema) {
+      return value;
+    }
+    const { properties, required = [] } = objectSchema;
+    return Object.fromEntries(
+      Object.entries(value)
+        // null for an optional field means the field is omitted
+        .filter(
+          ([key, item]) =>
+            !(
+              item === null &&
+              properties[key] &&
+              !required.includes(key) &&
+              !getSchemaTypes(properties[key]).has('null')
+            ),
+        )
+        .map(([key, item]) => [
+          key,
+          properties[key] ? coerceToolParams(item, properties[key]) : item,
+        ]),
+    );
+  }
+  return value;
+}
+
+export function validateToolParams(
+  tool: Tool,
+  params: any,
+  opts: { coerce?: boolean } = {},
+): ToolParamsValidationResult {
+  const result = checkToolParams(tool, params);
+  if (result.success || !opts.coerce) {
+    return result;
+  }
+  const schema = getToolJsonSchema(tool);
+  if (!schema) {
+    return result;
+  }
+  const coercedResult = checkToolParams(tool, coerceToolParams(params, schema));
+  // Report the errors of the original params if coercion doesn't help
+  return coercedResult.success ? coercedResult : result;
+}
+
+function formatToolParamsErrors(toolName: string, errors: ToolParamsError[]) {
+  return [
+    `Invalid parameters for tool ${toolName}:`,
+    ...errors.map((error) => `- ${error.path || '(root)'}: ${error.message}`),
+    'Fix the parameters and call the tool again.',
+  ].join('\n');
+}
 
 export type ToolUse = {
   name: string;
@@ -235,11 +464,21 @@ export interface Tool<TSchema extends z.ZodTypeAny = z.ZodTypeAny> {
     cwd: string;
   }) => string;
   displayName?: string;
-  execute: (params: z.output<TSchema>) => Promise<ToolResult> | ToolResult;
+  execute: (
+    params: z.output<TSchema>,
+    executeOpts?: ToolExecuteOpts,
+  ) => Promise<ToolResult> | ToolResult;
   approval?: ToolApprovalInfo;
   parameters: TSchema;
 }
 
+export type ToolExecuteOpts = {
+  toolCallId?: string;
+  signal?: AbortSignal;
+  // Spend of the session, for tools that send requests to a model
+  budgetSpend?: BudgetSpend;
+};
+
 type ApprovalContext = {
   toolName: string;
   params: Record<string, any>;
@@ -290,7 +529,10 @@ export function createTool<TSchema extends z.ZodTypeAny>(config: {
   displayName?: string;
   description: string;
   parameters: TSchema;
-  execute: (params: z.output<TSchema>) => Promise<ToolResult> | ToolResult;
+  execute: (
+    params: z.output<TSchema>,
+    executeOpts?: ToolExecuteOpts,
+  ) => Promise<ToolResult> | ToolResult;
   approval?: ToolApprovalInfo;
   getDescription?: ({
     params,
@@ -318,4 +560,9 @@ export type ToolApprovalResult =
   | {
       approved: boolean;
       params?: ToolParams;
+      /**
+       * Feedback from the user when the call is denied, it's sent back to
+       * the model as the tool result instead of ending the turn.
+       */
+      denyReason?: string;
     };
@@ -1,10 +1,17 @@
 import fs from 'fs';
 import path from 'pathe';
 import { z } from 'zod';
+import type { CheckpointStore } from '../checkpoint';
+import { TOOL_NAMES } from '../constants';
+import type { FileStateTracker } from '../fileState';
 import { createTool } from '../tool';
 import { applyEdits } from '../utils/applyEdit';
 
-export function createEditTool(opts: { cwd: string }) {
+export function createEditTool(opts: {
+  cwd: string;
+  checkpoints?: CheckpointStore;
+  fileStates?: FileStateTracker;
+}) {
   return createTool({
     name: 'edit',
     description: `
@@ -15,7 +22,7 @@ Usage:
 - For moving or renaming files, you should generally use the Bash tool with the 'mv' command instead.
 - For larger edits, use the Write tool to overwrite files.
 - For file creation, use the Write tool.
-- When making multiple file edits in a row to the same file, you should prefer to send all edits in a single message with multiple calls to this tool, rather than multiple messages with a single call each.
+- When making multiple edits to the same file, prefer the multi_edit tool, which applies them all at once with a single approval.
 `.trim(),
     parameters: z.object({
       file_path: z.string().describe('The path of the file to modify'),
@@ -36,19 +43,32 @@ Usage:
       }
       return path.relative(cwd, params.file_path);
     },
-    execute: async ({ file_path, old_string, new_string, replace_all }) => {
+    execute: async (
+      { file_path, old_string, new_string, replace_all },
+      executeOpts,
+    ) => {
       try {
         const cwd = opts.cwd;
         const fullFilePath = path.isAbsolute(file_path)
           ? file_path
           : path.resolve(cwd, file_path);
         const relativeFilePath = path.relative(cwd, fullFilePath);
+        if (path.extname(fullFilePath) === '.ipynb') {
+          throw new Error(
+            `Use the ${TOOL_NAMES.NOTEBOOK_EDIT} tool to edit Jupyter notebooks.`,
+          );
+        }
+        opts.fileStates?.assertEditable(fullFilePath);
         const { patch, updatedFile } = applyEdits(cwd, fullFilePath, [
           { old_string, new_string, replace_all },
         ]);
+        opts.checkpoints?.snapshotFile(fullFilePath, {
+          toolCallId: executeOpts?.toolCallId,
+        });
         const dir = path.dirname(fullFilePath);
         fs.mkdirSync(dir, { recursive: true });
         fs.writeFileSync(fullFilePath, updatedFile, 'utf-8');
+        opts.fileStates?.record(fullFilePath);
         return {
           llmContent: `File ${file_path} successfully edited.`,
           returnDisplay: {
@@ -0,0 +1,48 @@
+import { expect, test } from 'vitest';
+import { buildGrepArgs, limitTokens } from './grep';
+
+test('lists the matching files case insensitively by default', () => {
+  expect(buildGrepArgs({ pattern: '-foo', include: '*.ts' })).toEqual([
+    '-l',
+    '-i',
+    '--glob',
+    '*.ts',
+    '-e',
+    '-foo',
+  ]);
+});
+
+test('maps the content and count options to ripgrep flags', () => {
+  const contentArgs = buildGrepArgs({
+    pattern: 'foo.*bar',
+    output_mode: 'content',
+    case_sensitive: true,
+    multiline: true,
+    type: 'ts',
+    '-C': 2,
+    '-A': 4,
+  });
+  expect(contentArgs).toContain('--line-number');
+  expect(contentArgs.join(' ')).toContain(
+    '-C 2 -A 4 -U --multiline-dotall --type ts -e foo.*bar',
+  );
+  expect(contentArgs).not.toContain('-i');
+  expect(buildGrepArgs({ pattern: 'foo', output_mode: 'count' })).toEqual([
+    '--count',
+    '--with-filename',
+    '--sort',
+    'path',
+    '-i',
+    '-e',
+    'foo',
+  ]);
+});
+
+test('truncates the lines past the token budget', () => {
+  const lines = Array.from({ length: 10 }, (_, i) => `src/a.ts:${i}:match`);
+  expect(limitTokens(lines)).toEqual({ lines, truncated: false });
+  const { lines: kept, truncated } = limitTokens(lines, 20);
+  expect(truncated).toBe(true);
+  expect(kept.length).toBeGreaterThan(0);
+  expect(kept.length).toBeLessThan(10);
+});
@@ -1,4 +1,5 @@
 import fs from 'fs';
+import { countTokens } from 'gpt-tokenizer';
 import path from 'pathe';
 import { z } from 'zod';
 import { TOOL_NAMES } from '../constants';
@@ -7,25 +8,166 @@ import { ripGrep } from '../utils/ripgrep';
 import { safeStringify } from '../utils/safeStringify';
 
 const DEFAULT_LIMIT = 1000;
+const MAX_LINE_LENGTH = 500;
+const MAX_TOKENS = 25000;
+// Every line takes at least two tokens of the budget, ripgrep is stopped
+// after the lines that could be returned
+const MAX_CONTENT_LINES = MAX_TOKENS / 2;
+
+export type GrepOutputMode = 'files' | 'content' | 'count';
+
+export type GrepOptions = {
+  pattern: string;
+  include?: string;
+  type?: string;
+  output_mode?: GrepOutputMode;
+  case_sensitive?: boolean;
+  multiline?: boolean;
+  '-A'?: number;
+  '-B'?: number;
+  '-C'?: number;
+};
+
+export function buildGrepArgs(opts: GrepOptions) {
+  const args: string[] = [];
+  const mode = opts.output_mode ?? 'files';
+  if (mode === 'files') {
+    args.push('-l');
+  } else if (mode === 'count') {
+    // Sorted so that offset pages over the same order
+    args.push('--count', '--with-filename', '--sort', 'path');
+  } else {
+    args.push(
+      '--line-number',
+      '--with-filename',
+      '--no-heading',
+      '--sort',
+      'path',
+      // Minified files would blow the budget with a single line
+      '--max-columns',
+      String(MAX_LINE_LENGTH),
+      '--max-columns-preview',
+    );
+    if (opts['-C'] !== undefined) {
+      args.push('-C', String(opts['-C']));
+    }
+    if (opts['-A'] !== undefined) {
+      args.push('-A', String(opts['-A']));
+    }
+    if (opts['-B'] !== undefined) {
+      args.push('-B', String(opts['-B']));
+    }
+  }
+  if (!opts.case_sensitive) {
+    args.push('-i');
+  }
+  if (opts.multiline) {
+    args.push('-U', '--multiline-dotall');
+  }
+  if (opts.include) {
+    args.push('--glob', opts.include);
+  }
+  if (opts.type) {
+    args.push('--type', opts.type);
+  }
+  // `-e` so that patterns starting with a dash aren't read as flags
+  args.push('-e', opts.pattern);
+  return args;
+}
+
+/**
+ * Keep the lines that fit in the token budget, the result is truncated at
+ * the first line that doesn't fit.
+ */
+export function limitTokens(lines: string[], maxTokens = MAX_TOKENS) {
+  let tokens = 0;
+  for (let index = 0; index < lines.length; index++) {
+    tokens += countTokens(lines[index]) + 1;
+    if (tokens > maxTokens) {
+      return { lines: lines.slice(0, index), truncated: true };
+    }
+  }
+  return { lines, truncated: false };
+}
+
+function sortByModifiedTime(files: string[]) {
+  const stats = files.map((file) => fs.statSync(file));
+  return (
+    files
+      // Sort by modification time
+      .map((_, i) => [_, stats[i]!] as const)
+      .sort((a, b) => {
+        if (process.env.NODE_ENV === 'test') {
+          // In tests, we always want to sort by filename, so that results are deterministic
+          return a[0].localeCompare(b[0]);
+        }
+        const timeComparison = (b[1].mtimeMs ?? 0) - (a[1].mtimeMs ?? 0);
+        if (timeComparison === 0) {
+          return a[0].localeCompare(b[0]);
+        }
+        return timeComparison;
+      })
+      .map((_) => _[0])
+  );
+}
 
 export function createGrepTool(opts: { cwd: string }) {
   return createTool({
     name: TOOL_NAMES.GREP,
-    description: `Search for a pattern in a file or directory.`,
+    description: `Search for a regex pattern in the files of a directory, powered by ripgrep.
+
+Usage:
+- output_mode "files" (default) lists the matching files, most recently modified first
+- output_mode "content" shows the matching lines with their line numbers, use -A/-B/-C for context lines
+- output_mode "count" shows the number of matching lines per file
+- Filter files with include (glob, e.g. "*.ts") or type (ripgrep file type, e.g. "ts", "py")
+- Results are capped at ${MAX_TOKENS} tokens and lines at ${MAX_LINE_LENGTH} characters, page through large results with offset and head_limit`,
     parameters: z.object({
-      pattern: z.string().describe('The pattern to search for'),
+      pattern: z.string().describe('The regex pattern to search for'),
       search_path: z.string().optional().describe('The path to search in'),
       include: z
         .string()
         .optional()
         .describe('The file pattern to include in the search'),
-      limit: z
+      type: z
+        .string()
+        .optional()
+        .describe('The ripgrep file type to search, e.g. "ts", "py", "rust"'),
+      output_mode: z
+        .enum(['files', 'content', 'count'])
+        .optional()
+        .describe('What to return, "files" by default'),
+      case_sensitive: z
+        .boolean()
+        .optional()
+        .describe('Match case, the search is case insensitive by default'),
+      multiline: z
+        .boolean()
+        .optional()
+        .describe('Let the pattern match across lines, "." matches newlines'),
+      '-A': z
+        .number()
+        .optional()
+        .describe('Lines to show after each match, "content" mode only'),
+      '-B': z
+        .number()
+        .optional()
+        .describe('Lines to show before each match, "content" mode only'),
+      '-C': z
         .number()
-        // .positive()
-        .max(DEFAULT_LIMIT)
         .optional()
         .describe(
-          `Maximum number of files to return (positive number, default: ${DEFAULT_LIMIT})`,
+          'Lines to show before and after each match, "content" mode only',
+        ),
+      offset: z
+        .number()
+        .optional()
+        .describe('Number of files, lines or counts to skip (default: 0)'),
+      head_limit: z
+        .number()
+        .optional()
+        .describe(
+          `Maximum number of files, lines or counts to return (default: ${DEFAULT_LIMIT} files, no limit for lines and counts)`,
         ),
     }),
     getDescription: ({ params }) => {
@@ -34,53 +176,111 @@ export function createGrepTool(opts: { cwd: string }) {
       }
       return params.pattern;
     },
-    execute: async ({ pattern, search_path, include, limit }) => {
+    execute: async (params) => {
+      const { search_path, offset = 0, head_limit } = params;
+      const mode = params.output_mode ?? 'files';
       try {
-        const start = Date.now();
-        const args = ['-li', pattern];
-        if (include) {
-          args.push('--glob', include);
+        if (offset < 0) {
+          throw new Error('Offset must be >= 0');
         }
+        if (head_limit !== undefined && head_limit < 1) {
+          throw new Error('head_limit must be >= 1');
+        }
+        const start = Date.now();
         const absolutePath = search_path
           ? path.isAbsolute(search_path)
             ? search_path
             : path.resolve(opts.cwd, search_path)
           : opts.cwd;
-        const results = await ripGrep(args, absolutePath);
-        const stats = await Promise.all(results.map((_) => fs.statSync(_)));
-        const allMatches = results
-          // Sort by modification time
-          .map((_, i) => [_, stats[i]!] as const)
-          .sort((a, b) => {
-            if (process.env.NODE_ENV === 'test') {
-              // In tests, we always want to sort by filename, so that results are deterministic
-              return a[0].localeCompare(b[0]);
-            }
-            const timeComparison = (b[1].mtimeMs ?? 0) - (a[1].mtimeMs ?? 0);
-            if (timeComparison === 0) {
-              return a[0].localeCompare(b[0]);
-            }
-            return timeComparison;
-          })
-          .map((_) => _[0]);
-
-        const maxFiles = limit ?? DEFAULT_LIMIT;
-        const totalFiles = allMatches.length;
-        const truncated = totalFiles > maxFiles;
-        const matches = allMatches.slice(0, maxFiles);
-        const returnedFiles = matches.length;
+        const { lines: results, truncated: hasMore } = await ripGrep(
+          buildGrepArgs(params),
+          absolutePath,
+          {
+            maxLines:
+              mode === 'content'
+                ? offset +
+                  Math.min(head_limit ?? MAX_CONTENT_LINES, MAX_CONTENT_LINES)
+                : undefined,
+          },
+        );
         const durationMs = Date.now() - start;
-        const returnDisplay = truncated
-          ? `Found ${totalFiles} files (showing first ${returnedFiles} of ${totalFiles} total) in ${durationMs}ms.`
-          : `Found ${totalFiles} files in ${durationMs}ms.`;
+
+        if (mode === 'files') {
+          const allMatches = sortByModifiedTime(results);
+          const totalFiles = allMatches.length;
+          const page = allMatches.slice(
+            offset,
+            offset + (head_limit ?? DEFAULT_LIMIT),
+          );
+          const { lines: matches, truncated: overBudget } = limitTokens(page);
+          const truncated = overBudget || offset + matches.length < totalFiles;
+          const returnedFiles = matches.length;
+          const returnDisplay = truncated
+            ? `Found ${totalFiles} files (showing ${returnedFiles} from ${offset + 1}) in ${durationMs}ms.`
+            : `Found ${totalFiles} files in ${durationMs}ms.`;
+          return {
+            returnDisplay,
+            llmContent: safeStringify({
+              filenames: matches,
+              durationMs,
+              totalFiles,
+              returnedFiles,
+              truncated,
+            }),
+          };
+        }
+
+        const page = results.slice(
+          offset,
+          head_limit === undefined ? undefined : offset + head_limit,
+        );
+        const { lines, truncated: overBudget } = limitTokens(page);
+        const truncated =
+          overBudget || hasMore || offset + lines.length < results.length;
+        const nextOffset = truncated ? offset + lines.length : undefined;
+
+        if (mode === 'count') {
+          const counts = lines.map((line) => {
+            const index = line.lastIndexOf(':');
+            return {
+              file: line.slice(0, index),
+              count: Number(line.slice(index + 1)),
+            };
+          });
+          const totalMatches = results.reduce(
+            (sum, line) => sum + Number(line.slice(line.lastIndexOf(':') + 1)),
+            0,
+          );
+          return {
+            returnDisplay: `Found ${totalMatches} matches in ${results.length} files in ${durationMs}ms.`,
+            llmContent: safeStringify({
+              counts,
+              totalMatches,
+              totalFiles: results.length,
+              durationMs,
+              truncated,
+              nextOffset,
+            }),
+          };
+        }
+
+        const content = lines.join('\n');
+        // The total is unknown once ripgrep was stopped
+        const totalLines = hasMore ? undefined : results.length;
+        const found = hasMore
+          ? `more than ${results.length}`
+          : `${results.length}`;
         return {
-          returnDisplay,
+          returnDisplay: truncated
+            ? `Found ${found} lines (showing ${lines.length} from ${offset + 1}) in ${durationMs}ms.`
+            : `Found ${found} lines in ${durationMs}ms.`,
           llmContent: safeStringify({
-            filenames: matches,
+            content: content || 'No matches found',
+            totalLines,
+            returnedLines: lines.length,
             durationMs,
-            totalFiles,
-            returnedFiles,
             truncated,
+            nextOffset,
           }),
         };
       } catch (e) {
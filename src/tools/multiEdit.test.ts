@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'pathe';
+import { afterEach, beforeEach, expect, test } from 'vitest';
+import { CheckpointStore } from '../checkpoint';
+import { createMultiEditTool } from './multiEdit';
+
+let tmpDir: string;
+let filePath: string;
+let checkpoints: CheckpointStore;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-edit-'));
+  filePath = path.join(tmpDir, 'a.ts');
+  fs.writeFileSync(filePath, 'const foo = 1;\nconsole.log(foo);\n');
+  checkpoints = new CheckpointStore({ dir: path.join(tmpDir, 'checkpoints') });
+  checkpoints.addTurn('m1');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test('applies the edits in order with one diff', async () => {
+  const tool = createMultiEditTool({ cwd: tmpDir, checkpoints });
+  const result = await tool.execute({
+    file_path: 'a.ts',
+    edits: [
+      { old_string: 'foo', new_string: 'bar', replace_all: true },
+      { old_string: '= 1', new_string: '= 2', replace_all: false },
+    ],
+  });
+  expect(result.isError).toBeUndefined();
+  expect(fs.readFileSync(filePath, 'utf-8')).toBe(
+    'const bar = 2;\nconsole.log(bar);\n',
+  );
+  expect(result.returnDisplay).toMatchObject({
+    type: 'diff_viewer',
+    filePath: 'a.ts',
+    originalContent: 'const foo = 1;\nconsole.log(foo);\n',
+    newContent: 'const bar = 2;\nconsole.log(bar);\n',
+  });
+  expect(checkpoints.getChangedFiles('m1')).toEqual([filePath]);
+});
+
+test('leaves the file unchanged when an edit fails', async () => {
+  const tool = createMultiEditTool({ cwd: tmpDir, checkpoints });
+  const result = await tool.execute({
+    file_path: filePath,
+    edits: [
+      { old_string: 'foo', new_string: 'bar', replace_all: true },
+      { old_string: 'missing', new_string: 'x', replace_all: false },
+    ],
+  });
+  expect(result.isError).toBe(true);
+  expect(fs.readFileSync(filePath, 'utf-8')).toBe(
+    'const foo = 1;\nconsole.log(foo);\n',
+  );
+  expect(checkpoints.getChangedFiles('m1')).toEqual([]);
+});
@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'pathe';
+import { z } from 'zod';
+import type { CheckpointStore } from '../checkpoint';
+import { TOOL_NAMES } from '../constants';
+import type { FileStateTracker } from '../fileState';
+import { createTool } from '../tool';
+import { applyEdits } from '../utils/applyEdit';
+
+export function createMultiEditTool(opts: {
+  cwd: string;
+  checkpoints?: CheckpointStore;
+  fileStates?: FileStateTracker;
+}) {
+  return createTool({
+    name: TOOL_NAMES.MULTI_EDIT,
+    description: `
+Make several edits to one file at once, prefer it to several calls of the edit tool on the same file.
+Usage:
+- You must use your read tool at least once in the conversation before editing. This tool will error if you attempt an edit without reading the file.
+- The edits are applied in order, each one to the result of the previous one. Make sure an edit doesn't change the text a later edit has to find.
+- The edits are atomic: if any of them fails, none is applied and the file is left unchanged.
+- The same rules as the edit tool apply to each edit: preserve the exact indentation and never include the line number prefix of the read output in old_string or new_string.
+- Use replace_all to rename a variable or replace a string across the whole file.
+`.trim(),
+    parameters: z.object({
+      file_path: z.string().describe('The path of the file to modify'),
+      edits: z
+        .array(
+          z.object({
+            old_string: z.string().describe('The text to replace'),
+            new_string: z
+              .string()
+              .describe('The text to replace the old_string with'),
+            replace_all: z
+              .boolean()
+              .default(false)
+              .describe(
+                'Whether to replace all occurrences of old_string with new_string',
+              ),
+          }),
+        )
+        .min(1)
+        .describe('The edits to apply in order'),
+    }),
+    getDescription: ({ params, cwd }) => {
+      if (!params.file_path || typeof params.file_path !== 'string') {
+        return 'No file path provided';
+      }
+      const edits = Array.isArray(params.edits) ? params.edits.length : 0;
+      return `${path.relative(cwd, params.file_path)} (${edits} edits)`;
+    },
+    execute: async ({ file_path, edits }, executeOpts) => {
+      try {
+        const cwd = opts.cwd;
+        const fullFilePath = path.isAbsolute(file_path)
+          ? file_path
+          : path.resolve(cwd, file_path);
+        const relativeFilePath = path.relative(cwd, fullFilePath);
+        if (path.extname(fullFilePath) === '.ipynb') {
+          throw new Error(
+            `Use the ${TOOL_NAMES.NOTEBOOK_EDIT} tool to edit Jupyter notebooks.`,
+          );
+        }
+        opts.fileStates?.assertEditable(fullFilePath);
+        const originalContent = fs.existsSync(fullFilePath)
+          ? fs.readFileSync(fullFilePath, 'utf-8').replace(/\r\n/g, '\n')
+          : '';
+        // Throws before anything is written if any of the edits fails
+        const { updatedFile } = applyEdits(cwd, fullFilePath, edits);
+        opts.checkpoints?.snapshotFile(fullFilePath, {
+          toolCallId: executeOpts?.toolCallId,
+        });
+        fs.mkdirSync(path.dirname(fullFilePath), { recursive: true });
+        fs.writeFileSync(fullFilePath, updatedFile, 'utf-8');
+        opts.fileStates?.record(fullFilePath);
+        return {
+          llmContent: `File ${file_path} successfully edited with ${edits.length} edits.`,
+          returnDisplay: {
+            type: 'diff_viewer',
+            filePath: relativeFilePath,
+            originalContent,
+            newContent: updatedFile,
+            absoluteFilePath: fullFilePath,
+          },
+        };
+      } catch (e) {
+        return {
+          isError: true,
+          llmContent: e instanceof Error ? e.message : 'Unknown error',
+        };
+      }
+    },
+    approval: {
+      category: 'write',
+    },
+  });
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'pathe';
+import { z } from 'zod';
+import type { CheckpointStore } from '../checkpoint';
+import { TOOL_NAMES } from '../constants';
+import type { FileStateTracker } from '../fileState';
+import { createTool } from '../tool';
+import {
+  editNotebook,
+  getCellId,
+  getNotebookDiffText,
+  readNotebook,
+  serializeNotebook,
+} from '../utils/notebook';
+
+export function createNotebookEditTool(opts: {
+  cwd: string;
+  checkpoints?: CheckpointStore;
+  fileStates?: FileStateTracker;
+}) {
+  return createTool({
+    name: TOOL_NAMES.NOTEBOOK_EDIT,
+    description: `
+Edit a cell of a Jupyter notebook (.ipynb), never edit notebooks with the edit or write tools.
+Usage:
+- You must read the notebook with the read tool first to get the cell ids.
+- edit_mode "replace" (default) replaces the source of the cell, a replaced code cell loses its outputs.
+- edit_mode "insert" adds a cell after cell_id, or at the start of the notebook without cell_id. cell_type is required.
+- edit_mode "delete" removes the cell.
+`.trim(),
+    parameters: z.object({
+      notebook_path: z.string().describe('The path of the notebook to modify'),
+      cell_id: z
+        .string()
+        .optional()
+        .describe(
+          'The id of the cell to replace or delete, or to insert after',
+        ),
+      new_source: z
+        .string()
+        .optional()
+        .describe('The new source of the cell, not needed to delete'),
+      cell_type: z
+        .enum(['code', 'markdown', 'raw'])
+        .optional()
+        .describe(
+          'The type of the cell, required to insert, the type is kept on replace by default',
+        ),
+      edit_mode: z
+        .enum(['replace', 'insert', 'delete'])
+        .optional()
+        .describe('How to edit the cell, "replace" by default'),
+    }),
+    getDescription: ({ params, cwd }) => {
+      if (!params.notebook_path || typeof params.notebook_path !== 'string') {
+        return 'No notebook path provided';
+      }
+      return path.relative(cwd, params.notebook_path);
+    },
+    execute: async ({ notebook_path, ...edit }, executeOpts) => {
+      try {
+        const fullFilePath = path.isAbsolute(notebook_path)
+          ? notebook_path
+          : path.resolve(opts.cwd, notebook_path);
+        if (path.extname(fullFilePath) !== '.ipynb') {
+          throw new Error(
+            'The file is not a Jupyter notebook, use the edit tool instead.',
+          );
+        }
+        if (!fs.existsSync(fullFilePath)) {
+          throw new Error(`Notebook ${notebook_path} does not exist.`);
+        }
+        opts.fileStates?.assertEditable(fullFilePath);
+        const notebook = readNotebook(fullFilePath);
+        const updated = editNotebook(notebook, edit);
+        opts.checkpoints?.snapshotFile(fullFilePath, {
+          toolCallId: executeOpts?.toolCallId,
+        });
+        fs.writeFileSync(fullFilePath, serializeNotebook(updated), 'utf-8');
+        opts.fileStates?.record(fullFilePath);
+        const mode = edit.edit_mode ?? 'replace';
+        // An inserted cell has the only new id
+        const ids = new Set(notebook.cells.map(getCellId));
+        const index = updated.cells.findIndex(
+          (cell, i) => !ids.has(getCellId(cell, i)),
+        );
+        const cellId =
+          mode === 'insert'
+            ? getCellId(updated.cells[index], index)
+            : edit.cell_id;
+        const action = {
+          replace: 'Replaced',
+          insert: 'Inserted',
+          delete: 'Deleted',
+        }[mode];
+        return {
+          llmContent: `${action} cell ${cellId} of ${notebook_path}, the notebook now has ${updated.cells.length} cells.`,
+          returnDisplay: {
+            type: 'diff_viewer',
+            filePath: path.relative(opts.cwd, fullFilePath),
+            absoluteFilePath: fullFilePath,
+            originalContent: getNotebookDiffText(notebook),
+            newContent: getNotebookDiffText(updated),
+          },
+        };
+      } catch (e) {
+        return {
+          isError: true,
+          llmContent: e instanceof Error ? e.message : 'Unknown error',
+        };
+      }
+    },
+    approval: {
+      category: 'write',
+    },
+  });
+}
@@ -3,11 +3,20 @@ import { countTokens } from 'gpt-tokenizer';
 import path from 'pathe';
 import { z } from 'zod';
 import { IMAGE_EXTENSIONS } from '../constants';
+import type { FileStateTracker } from '../fileState';
 import { createTool, type ToolResult } from '../tool';
 import {
+  DOCUMENT_EXTENSIONS,
+  getDocumentParts,
+  MAX_PAGES_TO_RENDER,
+  readDocument,
+} from '../utils/document';
+import {
+  MaxDocumentReadTokenExceededError,
   MaxFileReadLengthExceededError,
   MaxFileReadTokenExceededError,
 } from '../utils/error';
+import { readNotebook, renderNotebook } from '../utils/notebook';
 import { safeStringify } from '../utils/safeStringify';
 
 type ImageMediaType =
@@ -83,7 +92,13 @@ const MAX_LINE_LENGTH = 2000;
 const MAX_FILE_LENGTH = 262144;
 const MAX_TOKENS = 25000;
 
-export function createReadTool(opts: { cwd: string; productName: string }) {
+export function createReadTool(opts: {
+  cwd: string;
+  productName: string;
+  fileStates?: FileStateTracker;
+  // The model can see images, PDF pages are then rendered when possible
+  vision?: boolean;
+}) {
   const productName = opts.productName.toLowerCase();
   return createTool({
     name: 'read',
@@ -95,6 +110,8 @@ Usage:
 - You can optionally specify a line offset and limit (especially handy for long files), but it's recommended to read the whole file by not providing these parameters
 - Any lines longer than ${MAX_LINE_LENGTH} characters will be truncated
 - This tool allows ${productName} to read images (eg PNG, JPG, etc). When reading an image file the contents are presented visually as ${productName} is a multimodal LLM.
+- Jupyter notebooks (.ipynb) are rendered cell by cell with their ids and outputs, offset and limit then select cells. Edit them with the notebook_edit tool.
+- The text of PDF (.pdf), Word (.docx) and Excel (.xlsx) documents is extracted with page or sheet markers. Use pages to read specific pages of a PDF or sheets of a spreadsheet (e.g. "1-5"), and offset and limit for the lines of a Word document.${opts.vision ? ` The pages of a PDF are shown as images when they can be rendered, at most ${MAX_PAGES_TO_RENDER} pages at once.` : ''}
       `,
     parameters: z.object({
       file_path: z.string().describe('The absolute path to the file to read'),
@@ -110,6 +127,12 @@ Usage:
         .describe(
           `The number of lines to read. Only provide if the file is too large to read at once`,
         ),
+      pages: z
+        .string()
+        .optional()
+        .describe(
+          'The pages of a PDF or the sheets of a spreadsheet to read, e.g. "3", "1-5" or "1,4-6"',
+        ),
     }),
     getDescription: ({ params, cwd }) => {
       if (!params.file_path || typeof params.file_path !== 'string') {
@@ -117,7 +140,7 @@ Usage:
       }
       return path.relative(cwd, params.file_path);
     },
-    execute: async ({ file_path, offset, limit }) => {
+    execute: async ({ file_path, offset, limit, pages }) => {
       try {
         // Validate parameters
         if (offset !== undefined && offset !== null && offset < 1) {
@@ -152,6 +175,45 @@ Usage:
           return result;
         }
 
+        if (ext === '.ipynb') {
+          const notebook = readNotebook(fullFilePath);
+          const parts = renderNotebook(notebook, { offset, limit });
+          const tokenCount = countTokens(
+            parts
+              .map((part) => (part.type === 'text' ? part.text : ''))
+              .join('\n'),
+          );
+          if (tokenCount > MAX_TOKENS) {
+            throw new MaxFileReadTokenExceededError(tokenCount, MAX_TOKENS);
+          }
+          opts.fileStates?.record(fullFilePath);
+          return {
+            returnDisplay: `Read notebook with ${notebook.cells.length} cells.`,
+            llmContent: parts,
+          };
+        }
+
+        if (DOCUMENT_EXTENSIONS.has(ext)) {
+          const document = await readDocument(fullFilePath, {
+            pages,
+            offset,
+            limit,
+            render: opts.vision,
+          });
+          const tokenCount = countTokens(document.text);
+          if (tokenCount > MAX_TOKENS) {
+            throw new MaxDocumentReadTokenExceededError(tokenCount, MAX_TOKENS);
+          }
+          opts.fileStates?.record(fullFilePath);
+          return {
+            returnDisplay: `Read ${document.description}.`,
+            llmContent:
+              document.images.length > 0
+                ? getDocumentParts(document)
+                : document.text,
+          };
+        }
+
         // Handle text files
         const {
           content,
@@ -187,6 +249,7 @@ Usage:
         );
 
         const processedContent = truncatedLines.join('\n');
+        opts.fileStates?.record(fullFilePath);
         const actualLinesRead = selectedLines.length;
 
         return {
@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { TOOL_NAMES } from '../constants';
+import type { Context } from '../context';
+import { JsonlLogger } from '../jsonl';
+import { runLoop } from '../loop';
+import type { NormalizedMessage } from '../message';
+import type { ModelInfo } from '../model';
+import { createTool, type Tool, Tools } from '../tool';
+
+const TASK_MAX_TURNS = 50;
+
+function generateTaskSystemPrompt(opts: {
+  productName: string;
+  cwd: string;
+  tools: Tool[];
+}) {
+  return `
+You are a sub-agent of ${opts.productName}, launched to complete one task on behalf of the main agent.
+
+# Guidelines
+- You work in the directory: ${opts.cwd}
+- You can only use these read-only tools: ${opts.tools.map((tool) => tool.name).join(', ')}. You can not modify files or run commands.
+- Be thorough: search broadly, check several naming conventions and locations, and read the relevant code before concluding.
+- Use multiple tool calls in one response when they are independent of each other.
+- The main agent can not see your tool calls or their results, only your final response. Make it self-contained: include the findings, absolute file paths, line numbers and code snippets that matter.
+- Keep the final response concise and focused on what the task asked for.
+- Today's date is ${new Date().toLocaleDateString()}.
+  `.trim();
+}
+
+export function createTaskTool(opts: {
+  context: Context;
+  sessionId: string;
+  model: ModelInfo;
+  tools: Tool[];
+}) {
+  const { context, sessionId } = opts;
+  return createTool({
+    name: TOOL_NAMES.TASK,
+    description: `
+Launch a sub-agent that works on a task in an isolated conversation and returns only its final answer.
+
+Usage:
+- Use it for open-ended exploration that would otherwise need many tool calls, e.g. "find every caller of X", "how is the config loaded", "which files implement the login flow".
+- The sub-agent only has read-only tools (${opts.tools.map((tool) => tool.name).join(', ')}). It can not edit files or run commands.
+- The sub-agent does not see this conversation. Write a detailed, self-contained prompt and say exactly what information it should return.
+- Its intermediate steps don't fill your context, only the final answer is returned to you.
+- Launch several tasks in one response when they are independent.
+- Don't use it for a single known file or a simple search, use ${TOOL_NAMES.GREP}, glob or read directly instead.
+    `.trim(),
+    parameters: z.object({
+      description: z
+        .string()
+        .describe('A short (3-5 words) description of the task'),
+      prompt: z.string().describe('The task for the sub-agent to perform'),
+    }),
+    getDescription: ({ params }) => {
+      if (!params.description || typeof params.description !== 'string') {
+        return 'No description provided';
+      }
+      return params.description;
+    },
+    execute: async ({ prompt }, executeOpts) => {
+      const parentToolUseId = executeOpts?.toolCallId;
+      const jsonlLogger = new JsonlLogger({
+        filePath: context.paths.getSessionLogPath(sessionId),
+      });
+      const result = await runLoop({
+        input: prompt,
+        model: opts.model,
+        tools: new Tools(opts.tools, {
+          coerceParams: context.config.coerceToolParams,
+        }),
+        cwd: context.cwd,
+        systemPrompt: generateTaskSystemPrompt({
+          productName: context.productName,
+          cwd: context.cwd,
+          tools: opts.tools,
+        }),
+        maxTurns: TASK_MAX_TURNS,
+        signal: executeOpts?.signal,
+        autoCompact: context.config.autoCompact,
+        compaction: context.config.compaction,
+        toolConcurrency: context.config.toolConcurrency,
+        temperature: context.config.temperature,
+        loopDetection: context.config.loopDetection,
+        // Counted in and limited by the budget of the session
+        maxTokens: context.config.maxTokens,
+        maxCostUSD: context.config.maxCostUSD,
+        budgetSpend: executeOpts?.budgetSpend,
+        onMessage: async (message) => {
+          const sidechainMessage: NormalizedMessage & { sessionId: string } = {
+            ...message,
+            sessionId,
+            isSidechain: true,
+            parentToolUseId,
+          };
+          jsonlLogger.addMessage({
+            message: sidechainMessage,
+          });
+          await context.messageBus?.emitEvent('message', {
+            message: sidechainMessage,
+            sessionId,
+            cwd: context.cwd,
+          });
+        },
+        onToolResultsCleared: async (cleared) => {
+          jsonlLogger.addToolResultsCleared(cleared);
+        },
+      });
+      if (!result.success) {
+        return {
+          isError: true,
+          llmContent: `Task failed: ${result.error.message}`,
+        };
+      }
+      const text = result.data.text || 'Task completed with no output.';
+      const { toolCallsCount, duration } = result.metadata;
+      return {
+        llmContent: text,
+        returnDisplay: `Done (${toolCallsCount} tool uses · ${Math.round(duration / 1000)}s)`,
+      };
+    },
+    approval: {
+      category: 'read',
+    },
+  });
+}
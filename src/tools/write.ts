@@ -1,12 +1,19 @@
 import fs from 'fs';
 import path from 'pathe';
 import { z } from 'zod';
+import type { CheckpointStore } from '../checkpoint';
+import type { FileStateTracker } from '../fileState';
 import { createTool } from '../tool';
 
-export function createWriteTool(opts: { cwd: string }) {
+export function createWriteTool(opts: {
+  cwd: string;
+  checkpoints?: CheckpointStore;
+  fileStates?: FileStateTracker;
+}) {
   return createTool({
     name: 'write',
-    description: 'Write a file to the local filesystem',
+    description:
+      'Write a file to the local filesystem. An existing file must be read with the read tool first.',
     parameters: z.object({
       file_path: z.string(),
       content: z.string(),
@@ -17,20 +24,24 @@ export function createWriteTool(opts: { cwd: string }) {
       }
       return path.relative(cwd, params.file_path);
     },
-    execute: async ({ file_path, content }) => {
+    execute: async ({ file_path, content }, executeOpts) => {
       try {
         const fullFilePath = path.isAbsolute(file_path)
           ? file_path
           : path.resolve(opts.cwd, file_path);
+        opts.fileStates?.assertEditable(fullFilePath);
         const oldFileExists = fs.existsSync(fullFilePath);
         const oldContent = oldFileExists
           ? fs.readFileSync(fullFilePath, 'utf-8')
           : '';
-        // TODO: backup old content
+        opts.checkpoints?.snapshotFile(fullFilePath, {
+          toolCallId: executeOpts?.toolCallId,
+        });
         // TODO: let user know if they want to write to a file that already exists
         const dir = path.dirname(fullFilePath);
         fs.mkdirSync(dir, { recursive: true });
         fs.writeFileSync(fullFilePath, format(content));
+        opts.fileStates?.record(fullFilePath);
         return {
           llmContent: `File successfully written to ${file_path}`,
           returnDisplay: {
@@ -14,15 +14,18 @@ export function ActivityIndicator() {
     processingStartTime,
     processingTokens,
     retryInfo,
+    compacting,
   } = useAppStore();
   const [seconds, setSeconds] = useState(0);
 
   const text = useMemo(() => {
-    if (status === 'processing') return 'Processing...';
+    if (status === 'processing') {
+      return compacting ? 'Compacting conversation...' : 'Processing...';
+    }
     if (status === 'failed' || (status === 'exit' && error))
       return `Failed: ${error}`;
     return `Unknown status: ${status}`;
-  }, [status, error, seconds]);
+  }, [status, error, seconds, compacting]);
 
   const color = useMemo(() => {
     if (status === 'failed' || (status === 'exit' && error)) return 'red';
@@ -2,14 +2,21 @@ import { existsSync, readFileSync } from 'fs';
 import { Box, Text, useInput } from 'ink';
 import SelectInput from 'ink-select-input';
 import path from 'pathe';
-import React, { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { TOOL_NAMES } from '../constants';
 import type { ToolUse as ToolUseType } from '../tool';
 import type { Question } from '../tools/askUserQuestion';
+import { applyEdits } from '../utils/applyEdit';
+import {
+  editNotebook,
+  getNotebookDiffText,
+  readNotebook,
+} from '../utils/notebook';
 import { AskQuestionModal } from './AskQuestionModal';
 import { UI_COLORS } from './constants';
 import { DiffViewer } from './DiffViewer';
 import { type ApprovalResult, useAppStore } from './store';
+import TextInput from './TextInput';
 
 interface ToolPreviewProps {
   toolUse: ToolUseType;
@@ -19,11 +26,16 @@ interface ToolPreviewProps {
 function ToolPreview({ toolUse, cwd }: ToolPreviewProps) {
   const { name, params } = toolUse;
 
-  if (name === 'edit' || name === 'write') {
-    const { originalContent, newContent, fileName } = getDiffParams(
-      toolUse,
-      cwd,
-    );
+  if (
+    name === 'edit' ||
+    name === TOOL_NAMES.MULTI_EDIT ||
+    name === TOOL_NAMES.NOTEBOOK_EDIT ||
+    name === 'write'
+  ) {
+    const { originalContent, newContent, fileName } =
+      name === TOOL_NAMES.NOTEBOOK_EDIT
+        ? getNotebookDiffParams(toolUse, cwd)
+        : getDiffParams(toolUse, cwd);
 
     return (
       <Box flexDirection="column">
@@ -120,6 +132,8 @@ export function ApprovalModal() {
 
 function ApprovalModalContent() {
   const { approvalModal, cwd } = useAppStore();
+  const [feedbackMode, setFeedbackMode] = useState(false);
+  const [feedback, setFeedback] = useState('');
 
   const selectOptions = useMemo(() => {
     const options = [
@@ -136,6 +150,10 @@ function ApprovalModalContent() {
         label: `Yes, allow ${approvalModal!.toolUse.name} during this session`,
         value: 'approve_always_tool',
       },
+      {
+        label: 'No, and tell the agent what to do instead',
+        value: 'deny_with_feedback',
+      },
       { label: 'No, and suggest changes (esc)', value: 'deny' },
     ].map((option, index) => ({
       label: `${index + 1}. ${option.label}`,
@@ -144,17 +162,29 @@ function ApprovalModalContent() {
     return options;
   }, [approvalModal]);
 
-  useInput((input, key) => {
-    const inputNum = parseInt(input, 10);
-    if (key.escape) {
-      approvalModal!.resolve('deny');
-    } else if (inputNum >= 1 && inputNum <= selectOptions.length) {
-      const value = selectOptions[parseInt(input) - 1].value as ApprovalResult;
-      approvalModal!.resolve(value);
-    } else if (key.ctrl && input === 'c') {
-      approvalModal!.resolve('deny');
+  const handleSelect = (value: ApprovalResult) => {
+    if (value === 'deny_with_feedback') {
+      setFeedbackMode(true);
+      return;
     }
-  });
+    approvalModal!.resolve(value);
+  };
+
+  useInput(
+    (input, key) => {
+      const inputNum = parseInt(input, 10);
+      if (key.escape) {
+        approvalModal!.resolve('deny');
+      } else if (inputNum >= 1 && inputNum <= selectOptions.length) {
+        const value = selectOptions[Number.parseInt(input, 10) - 1]
+          .value as ApprovalResult;
+        handleSelect(value);
+      } else if (key.ctrl && input === 'c') {
+        approvalModal!.resolve('deny');
+      }
+    },
+    { isActive: !feedbackMode },
+  );
 
   return (
     <Box
@@ -169,16 +199,43 @@ function ApprovalModalContent() {
 
       <ToolPreview toolUse={approvalModal!.toolUse} cwd={cwd} />
 
-      <Box marginY={1}>
-        <Text bold>Approval Options:</Text>
-      </Box>
+      {feedbackMode ? (
+        <Box flexDirection="column">
+          <Box marginY={1}>
+            <Text bold>What should the agent do instead?</Text>
+          </Box>
+          <TextInput
+            value={feedback}
+            onChange={setFeedback}
+            placeholder="Type your feedback and press enter"
+            onSubmit={(value) => {
+              if (!value.trim()) return;
+              approvalModal!.resolve(
+                'deny_with_feedback',
+                undefined,
+                value.trim(),
+              );
+            }}
+            onEscape={() => {
+              setFeedbackMode(false);
+            }}
+          />
+          <Box marginTop={1}>
+            <Text color="gray">Enter to send · Esc to go back</Text>
+          </Box>
+        </Box>
+      ) : (
+        <>
+          <Box marginY={1}>
+            <Text bold>Approval Options:</Text>
+          </Box>
 
-      <SelectInput
-        items={selectOptions}
-        onSelect={(item) =>
-          approvalModal!.resolve(item.value as ApprovalResult)
-        }
-      />
+          <SelectInput
+            items={selectOptions}
+            onSelect={(item) => handleSelect(item.value as ApprovalResult)}
+          />
+        </>
+      )}
     </Box>
   );
 }
@@ -202,6 +259,13 @@ function getDiffParams(toolUse: ToolUseType, cwd: string) {
       // For edit tool, use old_string and new_string parameters
       const { old_string = '', new_string = '' } = toolUse.params;
       newContent = oldContent.replace(old_string, new_string);
+    } else if (toolUse.name === TOOL_NAMES.MULTI_EDIT) {
+      // One diff for all the edits, as they will be applied
+      newContent = applyEdits(
+        cwd,
+        fullFilePath,
+        toolUse.params.edits || [],
+      ).updatedFile;
     } else {
       // For write tool, use content parameter
       const { content = '' } = toolUse.params;
@@ -219,6 +283,10 @@ function getDiffParams(toolUse: ToolUseType, cwd: string) {
     if (toolUse.name === 'edit') {
       const { new_string = '' } = toolUse.params;
       newContent = new_string;
+    } else if (toolUse.name === TOOL_NAMES.MULTI_EDIT) {
+      newContent = (toolUse.params.edits || [])
+        .map((edit: { new_string: string }) => edit.new_string)
+        .join('\n');
     } else {
       const { content = '' } = toolUse.params;
       newContent = content;
@@ -232,6 +300,29 @@ function getDiffParams(toolUse: ToolUseType, cwd: string) {
   }
 }
 
+// The cell sources before and after the edit, the notebook JSON isn't readable
+function getNotebookDiffParams(toolUse: ToolUseType, cwd: string) {
+  const { notebook_path, ...edit } = toolUse.params;
+  const fullFilePath = path.isAbsolute(notebook_path)
+    ? notebook_path
+    : path.resolve(cwd, notebook_path);
+  const fileName = getRelativePath(notebook_path, cwd);
+  try {
+    const notebook = readNotebook(fullFilePath);
+    return {
+      originalContent: getNotebookDiffText(notebook),
+      newContent: getNotebookDiffText(editNotebook(notebook, edit)),
+      fileName,
+    };
+  } catch {
+    return {
+      originalContent: '',
+      newContent: edit.new_source ?? '',
+      fileName,
+    };
+  }
+}
+
 function getRelativePath(filePath: string, cwd: string): string {
   return path.isAbsolute(filePath) ? path.relative(cwd, filePath) : filePath;
 }
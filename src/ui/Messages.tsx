@@ -1,6 +1,7 @@
 import { Box, Static, Text } from 'ink';
 import pc from 'picocolors';
 import React, { useMemo } from 'react';
+import { TOOL_NAMES } from '../constants';
 import type {
   AssistantMessage,
   NormalizedMessage,
@@ -402,6 +403,12 @@ function User({
     >
       <Text bold color={UI_COLORS.USER}>
         {userName}
+        {message.steering && (
+          <Text bold={false} color="gray">
+            {' '}
+            ↪ sent while running
+          </Text>
+        )}
       </Text>
       {isCanceled ? (
         <Text color={UI_COLORS.CANCELED}>User canceled the request</Text>
@@ -448,12 +455,54 @@ function ToolUse({ part }: { part: ToolUsePart }) {
   );
 }
 
+function TaskProgress({ toolUseId }: { toolUseId: string }) {
+  const { sidechainMessages } = useAppStore();
+  const toolUses = useMemo(() => {
+    const messages = sidechainMessages[toolUseId] || [];
+    return messages.flatMap((message) => {
+      if (message.role !== 'assistant' || typeof message.content === 'string') {
+        return [];
+      }
+      return message.content.filter(
+        (part): part is ToolUsePart => part.type === 'tool_use',
+      );
+    });
+  }, [sidechainMessages, toolUseId]);
+
+  if (toolUses.length === 0) {
+    return null;
+  }
+  // Collapsed view: only the latest tool use of the sub-agent is shown
+  const lastToolUse = toolUses[toolUses.length - 1];
+  const hiddenCount = toolUses.length - 1;
+  return (
+    <Box
+      flexDirection="column"
+      marginTop={SPACING.MESSAGE_MARGIN_TOP_TOOL_RESULT}
+    >
+      <Text color={UI_COLORS.TOOL_DESCRIPTION}>
+        {symbols.arrowDown} {lastToolUse.displayName || lastToolUse.name}
+        {lastToolUse.description ? `(${lastToolUse.description})` : ''}
+      </Text>
+      {hiddenCount > 0 && (
+        <Text color={UI_COLORS.TOOL_DESCRIPTION} dimColor>
+          {'  '}+{hiddenCount} more tool use{hiddenCount > 1 ? 's' : ''}
+        </Text>
+      )}
+    </Box>
+  );
+}
+
 function ToolPair({ pair }: { pair: ToolPair }) {
+  const isTask = pair.toolUse.name === TOOL_NAMES.TASK;
   return (
     <Box flexDirection="column">
       {/* Render ToolUse */}
       <ToolUse part={pair.toolUse} />
 
+      {/* Render the collapsed sub-agent transcript, kept with the result */}
+      {isTask && <TaskProgress toolUseId={pair.toolUse.id} />}
+
       {/* Render ToolResult if available */}
       {pair.toolResult && (
         <Box marginTop={SPACING.MESSAGE_MARGIN_TOP_TOOL_RESULT}>
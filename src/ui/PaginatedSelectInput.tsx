@@ -1,7 +1,7 @@
 import { Box, Text, useInput } from 'ink';
 import pc from 'picocolors';
 import type React from 'react';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { symbols } from '../utils/symbols';
 
 interface PaginatedSelectInputProps {
@@ -9,6 +9,10 @@ interface PaginatedSelectInputProps {
   initialIndex?: number;
   itemsPerPage?: number;
   onSelect: (item: { label: string; value: string }) => void;
+  // Total number of items when they're loaded page by page
+  totalItems?: number;
+  // Called when the last page of the loaded items is shown, to load more
+  onReachEnd?: () => void;
 }
 
 const PaginatedSelectInput: React.FC<PaginatedSelectInputProps> = ({
@@ -16,9 +20,13 @@ const PaginatedSelectInput: React.FC<PaginatedSelectInputProps> = ({
   initialIndex = 0,
   itemsPerPage = 10,
   onSelect,
+  totalItems,
+  onReachEnd,
 }) => {
   const [currentPage, setCurrentPage] = useState(0);
   const [selectedIndex, setSelectedIndex] = useState(0);
+  // The initial index is applied once, items added later keep the selection
+  const appliedInitialIndex = useRef<number | null>(null);
 
   const totalPages = Math.ceil(items.length / itemsPerPage);
   const startIndex = currentPage * itemsPerPage;
@@ -27,7 +35,12 @@ const PaginatedSelectInput: React.FC<PaginatedSelectInputProps> = ({
   const globalSelectedIndex = startIndex + selectedIndex;
 
   useEffect(() => {
-    if (initialIndex >= 0 && initialIndex < items.length) {
+    if (
+      appliedInitialIndex.current !== initialIndex &&
+      initialIndex >= 0 &&
+      initialIndex < items.length
+    ) {
+      appliedInitialIndex.current = initialIndex;
       const targetPage = Math.floor(initialIndex / itemsPerPage);
       const targetIndex = initialIndex % itemsPerPage;
       setCurrentPage(targetPage);
@@ -35,6 +48,12 @@ const PaginatedSelectInput: React.FC<PaginatedSelectInputProps> = ({
     }
   }, [initialIndex, itemsPerPage, items.length]);
 
+  useEffect(() => {
+    if (totalPages > 0 && currentPage >= totalPages - 1) {
+      onReachEnd?.();
+    }
+  }, [currentPage, totalPages, onReachEnd]);
+
   useInput((input, key) => {
     if (key.return) {
       if (items.length > 0 && globalSelectedIndex < items.length) {
@@ -117,7 +136,7 @@ const PaginatedSelectInput: React.FC<PaginatedSelectInputProps> = ({
             Page {currentPage + 1} of {totalPages}
           </Text>
           <Text color="gray" dimColor>
-            Item {globalSelectedIndex + 1} of {items.length}
+            Item {globalSelectedIndex + 1} of {totalItems ?? items.length}
           </Text>
         </Box>
       )}
@@ -39,6 +39,31 @@ function ThinkingIndicator() {
   );
 }
 
+function FallbackModelIndicator() {
+  const { fallbackModel } = useAppStore();
+
+  if (!fallbackModel) return null;
+
+  return (
+    <>
+      {' | '}
+      <Text color="yellow">fallback: {fallbackModel}</Text>
+    </>
+  );
+}
+
+function BudgetWarning() {
+  const { budgetWarning } = useAppStore();
+
+  if (!budgetWarning) return null;
+
+  return (
+    <Box>
+      <Text color="yellow">⚠ {budgetWarning}</Text>
+    </Box>
+  );
+}
+
 function StatusMain() {
   const {
     cwd,
@@ -137,7 +162,8 @@ function StatusMain() {
         ) : (
           <Text color="red">use /model to select a model</Text>
         )}
-        <ThinkingIndicator />] | {folderName} | {tokenUsedDisplay} |{' '}
+        <ThinkingIndicator />
+        <FallbackModelIndicator />] | {folderName} | {tokenUsedDisplay} |{' '}
         <Text color={getContextLeftColor(contextLeftPercentage)}>
           {contextLeftPercentage}%
         </Text>{' '}
@@ -184,6 +210,7 @@ export function StatusLine({ hasSuggestions = false }: StatusLineProps) {
   return (
     <Box flexDirection="column" paddingX={2} paddingY={0}>
       <StatusMain />
+      <BudgetWarning />
       <StatusSide />
     </Box>
   );
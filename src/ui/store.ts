@@ -7,7 +7,13 @@ import type { LoopResult, StreamResult, ThinkingConfig } from '../loop';
 import type { Message, NormalizedMessage, UserMessage } from '../message';
 import type { ModelInfo, ProvidersMap } from '../model';
 import { Paths } from '../paths';
-import { loadSessionMessages, Session, SessionConfigManager } from '../session';
+import {
+  getSidechainMessages,
+  loadSessionMessages,
+  readSessionLogEntries,
+  Session,
+  SessionConfigManager,
+} from '../session';
 import {
   type CommandEntry,
   isSlashCommand,
@@ -26,7 +32,8 @@ export type ApprovalResult =
   | 'approve_once'
   | 'approve_always_edit'
   | 'approve_always_tool'
-  | 'deny';
+  | 'deny'
+  | 'deny_with_feedback';
 
 export interface BashPromptBackgroundEvent {
   taskId: string;
@@ -94,7 +101,18 @@ interface AppState {
     error: string | null;
   } | null;
 
+  // Model switched to after a provider failure in the current turn
+  fallbackModel: string | null;
+
+  // Shown once the session has used most of its token or cost budget
+  budgetWarning: string | null;
+
+  // The history is being compacted automatically
+  compacting: boolean;
+
   messages: Message[];
+  // Sub-agent messages keyed by the id of the task tool call that started them
+  sidechainMessages: Record<string, NormalizedMessage[]>;
   currentMessage: Message | null;
   queuedMessages: string[];
 
@@ -125,6 +143,7 @@ interface AppState {
     resolve: (
       result: ApprovalResult,
       params?: Record<string, unknown>,
+      denyReason?: string,
     ) => Promise<void>;
   } | null;
 
@@ -166,6 +185,11 @@ interface AppActions {
     model?: string;
   }) => Promise<LoopResult>;
   addMessage: (message: Message) => void;
+  addSidechainMessage: (
+    parentToolUseId: string,
+    message: NormalizedMessage,
+  ) => void;
+  replaceKeptMessage: (message: NormalizedMessage) => void;
   log: (log: string) => void;
   setExitMessage: (exitMessage: string | null) => void;
   cancel: () => Promise<void>;
@@ -183,11 +207,16 @@ interface AppActions {
   }: {
     toolUse: ToolUse;
     category?: ApprovalCategory;
-  }) => Promise<{ approved: boolean; params?: Record<string, unknown> }>;
+  }) => Promise<{
+    approved: boolean;
+    params?: Record<string, unknown>;
+    denyReason?: string;
+  }>;
   showMemoryModal: (rule: string) => Promise<'project' | 'global' | null>;
   addToQueue: (message: string) => void;
   clearQueue: () => void;
   processQueuedMessages: () => Promise<void>;
+  takeSteeringMessages: (opts: { sessionId: string; cwd: string }) => string[];
   scheduleQueueProcessing: () => void;
   toggleDebugMode: () => void;
   setStatus: (status: AppStatus) => void;
@@ -211,7 +240,8 @@ interface AppActions {
   setPastedImageMap: (map: Record<string, string>) => Promise<void>;
   showForkModal: () => void;
   hideForkModal: () => void;
-  fork: (targetMessageUuid: string) => Promise<void>;
+  // Resolves to false when the message isn't in the conversation
+  fork: (targetMessageUuid: string) => Promise<boolean>;
   incrementForkCounter: () => void;
   setBashBackgroundPrompt: (prompt: BashPromptBackgroundEvent) => void;
   clearBashBackgroundPrompt: () => void;
@@ -220,6 +250,31 @@ interface AppActions {
 
 export type AppStore = AppState & AppActions;
 
+// Expand pasted text references, e.g. [Pasted text #1 20 lines]
+function expandPastedText(
+  message: string,
+  pastedTextMap: Record<string, string>,
+) {
+  let expandedMessage = message;
+  const pastedTextRegex = /\[Pasted text (#\d+) \d+ lines\]/g;
+  const matches = [...message.matchAll(pastedTextRegex)];
+  for (const match of matches) {
+    const pasteId = match[1];
+    const pastedContent = pastedTextMap[pasteId];
+    if (pastedContent) {
+      const placeholder = new RegExp(
+        `\\[Pasted text ${pasteId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')} \\d+ lines\\]`,
+        'g',
+      );
+      expandedMessage = expandedMessage.replace(
+        placeholder,
+        pastedContent.replace(/\r/g, '\n'),
+      );
+    }
+  }
+  return expandedMessage;
+}
+
 export const useAppStore = create<AppStore>()(
   devtools(
     (set, get) => ({
@@ -243,6 +298,7 @@ export const useAppStore = create<AppStore>()(
       bashMode: false,
       approvalMode: 'default',
       messages: [],
+      sidechainMessages: {},
       currentMessage: null,
       queuedMessages: [],
       draftInput: '',
@@ -255,6 +311,9 @@ export const useAppStore = create<AppStore>()(
       processingStartTime: null,
       processingTokens: 0,
       retryInfo: null,
+      fallbackModel: null,
+      budgetWarning: null,
+      compacting: false,
       approvalModal: null,
       memoryModal: null,
       upgrade: null,
@@ -297,6 +356,9 @@ export const useAppStore = create<AppStore>()(
           providers: response.data.providers,
           sessionId: opts.sessionId,
           messages: opts.messages,
+          sidechainMessages: getSidechainMessages(
+            readSessionLogEntries(opts.logFile),
+          ),
           history: opts.history,
           initialPrompt: opts.initialPrompt,
           logFile: opts.logFile,
@@ -318,7 +380,20 @@ export const useAppStore = create<AppStore>()(
         }
 
         bridge.onEvent('message', (data) => {
-          const message = data.message as Message;
+          const message = data.message as NormalizedMessage;
+          // Copies of the messages kept by compaction are already rendered,
+          // they take the place of the originals so that a fork from them
+          // follows the compacted path
+          if (message.originalUuid) {
+            if (!message.isSidechain) {
+              get().replaceKeptMessage(message);
+            }
+            return;
+          }
+          if (message.isSidechain && message.parentToolUseId) {
+            get().addSidechainMessage(message.parentToolUseId, message);
+            return;
+          }
           get().addMessage(message);
         });
         bridge.onEvent('chunk', (data) => {
@@ -355,6 +430,30 @@ export const useAppStore = create<AppStore>()(
             set({ retryInfo: null });
           }
         });
+        bridge.onEvent('modelFallback', (data) => {
+          if (data.sessionId === get().sessionId && data.cwd === get().cwd) {
+            get().log(
+              `Switched model from ${data.from} to ${data.to}: ${data.error}`,
+            );
+            set({ fallbackModel: data.to, retryInfo: null });
+          }
+        });
+        bridge.onEvent('compact', (data) => {
+          if (data.sessionId === get().sessionId && data.cwd === get().cwd) {
+            set({ compacting: data.status === 'start' });
+          }
+        });
+        bridge.onEvent('session.title', (data) => {
+          if (data.sessionId === get().sessionId && data.cwd === get().cwd) {
+            setTerminalTitle(data.title);
+          }
+        });
+        bridge.onEvent('budgetWarning', (data) => {
+          if (data.sessionId === get().sessionId && data.cwd === get().cwd) {
+            get().log(`Budget warning: ${data.message}`);
+            set({ budgetWarning: data.message });
+          }
+        });
         setImmediate(async () => {
           if (opts.initialPrompt) {
             get().send(opts.initialPrompt);
@@ -429,23 +528,7 @@ export const useAppStore = create<AppStore>()(
         }
 
         // Expand pasted text references before processing
-        let expandedMessage = message;
-        const pastedTextRegex = /\[Pasted text (#\d+) \d+ lines\]/g;
-        const matches = [...message.matchAll(pastedTextRegex)];
-        for (const match of matches) {
-          const pasteId = match[1];
-          const pastedContent = pastedTextMap[pasteId];
-          if (pastedContent) {
-            const placeholder = new RegExp(
-              `\\[Pasted text ${pasteId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')} \\d+ lines\\]`,
-              'g',
-            );
-            expandedMessage = expandedMessage.replace(
-              placeholder,
-              pastedContent.replace(/\r/g, '\n'),
-            );
-          }
-        }
+        const expandedMessage = expandPastedText(message, pastedTextMap);
 
         // Save history to global data (save the original message with placeholders)
         if (!isSlashCommand(message)) {
@@ -631,43 +714,6 @@ export const useAppStore = create<AppStore>()(
             });
           }
 
-          // Update terminal title after successful send
-          if (result.success && get().messages.length <= 2) {
-            // don't await this
-            (async () => {
-              try {
-                const queryResult = await bridge.request(
-                  'utils.summarizeMessage',
-                  {
-                    cwd,
-                    message,
-                  },
-                );
-
-                if (queryResult.success && queryResult.data?.text) {
-                  try {
-                    const response = JSON.parse(queryResult.data.text);
-                    if (response && response.title) {
-                      setTerminalTitle(response.title);
-                      await bridge.request('session.config.setSummary', {
-                        cwd,
-                        sessionId,
-                        summary: response.title,
-                      });
-                    }
-                  } catch (parseError) {
-                    get().log(
-                      `Parse query result error: ${String(parseError)}`,
-                    );
-                    get().log(`Query result: ${queryResult.data.text}`);
-                  }
-                }
-              } catch (error) {
-                get().log(`Query error: ${String(error)}`);
-              }
-            })();
-          }
-
           // Check for queued messages after successful send
           if (result.success) {
             get().scheduleQueueProcessing();
@@ -705,6 +751,7 @@ export const useAppStore = create<AppStore>()(
           status: 'processing',
           processingStartTime: Date.now(),
           processingTokens: 0,
+          fallbackModel: null,
         });
         const { message } = opts;
         const { bridge, cwd, sessionId, pastedImageMap } = get();
@@ -745,6 +792,7 @@ export const useAppStore = create<AppStore>()(
             processingStartTime: null,
             processingTokens: 0,
             retryInfo: null,
+            compacting: false,
             forkParentUuid: null,
           });
         } else {
@@ -754,6 +802,7 @@ export const useAppStore = create<AppStore>()(
             processingStartTime: null,
             processingTokens: 0,
             retryInfo: null,
+            compacting: false,
             forkParentUuid: null,
           });
         }
@@ -774,6 +823,7 @@ export const useAppStore = create<AppStore>()(
           processingStartTime: null,
           processingTokens: 0,
           retryInfo: null,
+          compacting: false,
           bashBackgroundPrompt: null,
         });
       },
@@ -786,6 +836,8 @@ export const useAppStore = create<AppStore>()(
         });
         set({
           messages: [],
+          sidechainMessages: {},
+          budgetWarning: null,
           sessionId,
           logFile: paths.getSessionLogPath(sessionId),
           // Also reset input state when clearing
@@ -810,6 +862,30 @@ export const useAppStore = create<AppStore>()(
         set({ messages: [...get().messages, message] });
       },
 
+      replaceKeptMessage: (message) => {
+        set({
+          messages: get().messages.map((m) => {
+            const { uuid, originalUuid } = m as NormalizedMessage;
+            return (originalUuid ?? uuid) === message.originalUuid
+              ? message
+              : m;
+          }),
+        });
+      },
+
+      addSidechainMessage: (parentToolUseId, message) => {
+        const sidechainMessages = get().sidechainMessages;
+        set({
+          sidechainMessages: {
+            ...sidechainMessages,
+            [parentToolUseId]: [
+              ...(sidechainMessages[parentToolUseId] || []),
+              message,
+            ],
+          },
+        });
+      },
+
       log: (log: string) => {
         set({
           logs: [...get().logs, `[${new Date().toISOString()}] ${log}`],
@@ -876,6 +952,10 @@ export const useAppStore = create<AppStore>()(
           sessionId,
           logFile,
           messages,
+          sidechainMessages: getSidechainMessages(
+            readSessionLogEntries(logFile),
+          ),
+          budgetWarning: null,
           status: 'idle',
           error: null,
           slashCommandJSX: null,
@@ -937,6 +1017,7 @@ export const useAppStore = create<AppStore>()(
         return new Promise<{
           approved: boolean;
           params?: Record<string, unknown>;
+          denyReason?: string;
         }>((resolve) => {
           set({
             approvalModal: {
@@ -945,8 +1026,13 @@ export const useAppStore = create<AppStore>()(
               resolve: async (
                 result: ApprovalResult,
                 params?: Record<string, unknown>,
+                denyReason?: string,
               ) => {
                 set({ approvalModal: null });
+                if (result === 'deny_with_feedback') {
+                  resolve({ approved: false, denyReason });
+                  return;
+                }
                 const isApproved = result !== 'deny';
                 if (result === 'approve_always_edit') {
                   await bridge.request('session.config.setApprovalMode', {
@@ -991,6 +1077,28 @@ export const useAppStore = create<AppStore>()(
       clearQueue: () => {
         set({ queuedMessages: [] });
       },
+      // Queued messages are taken by the running turn when steering is on,
+      // slash commands stay in the queue until the turn ends
+      takeSteeringMessages: ({ sessionId, cwd }) => {
+        const { queuedMessages, pastedTextMap } = get();
+        if (sessionId !== get().sessionId || cwd !== get().cwd) {
+          return [];
+        }
+        const steeringMessages = queuedMessages.filter(
+          (message) => !isSlashCommand(message),
+        );
+        if (steeringMessages.length === 0) {
+          return [];
+        }
+        set({
+          queuedMessages: queuedMessages.filter((message) =>
+            isSlashCommand(message),
+          ),
+        });
+        return steeringMessages.map((message) =>
+          expandPastedText(message, pastedTextMap),
+        );
+      },
       processQueuedMessages: async () => {
         const queued = get().queuedMessages;
         if (queued.length === 0) return;
@@ -1028,7 +1136,7 @@ export const useAppStore = create<AppStore>()(
         );
         if (!targetMessage) {
           get().log(`Fork error: Message ${targetMessageUuid} not found`);
-          return;
+          return false;
         }
 
         // Filter messages up to and including the target
@@ -1057,6 +1165,7 @@ export const useAppStore = create<AppStore>()(
           forkModalVisible: false,
         });
         get().incrementForkCounter();
+        return true;
       },
 
       incrementForkCounter: () => {
@@ -68,6 +68,16 @@ class UIHandlerRegistry {
         return {
           approved: result.approved,
           params: result.params,
+          denyReason: result.denyReason,
+        };
+      },
+    );
+
+    this.messageBus.registerHandler(
+      'steeringMessages',
+      async ({ sessionId, cwd }: { sessionId: string; cwd: string }) => {
+        return {
+          messages: this.appStore.takeSteeringMessages({ sessionId, cwd }),
         };
       },
     );
@@ -0,0 +1,83 @@
+import { strToU8, zipSync } from 'fflate';
+import { expect, test } from 'vitest';
+import {
+  formatPageRange,
+  parseDocx,
+  parsePageRange,
+  parseXlsx,
+} from './document';
+
+function createDocx(body: string) {
+  return zipSync({
+    'word/document.xml': strToU8(
+      `<?xml version="1.0"?><w:document xmlns:w="w"><w:body>${body}</w:body></w:document>`,
+    ),
+  });
+}
+
+function createXlsx() {
+  return zipSync({
+    'xl/workbook.xml': strToU8(
+      '<workbook><sheets><sheet name="Q1 &amp; Q2" sheetId="1" r:id="rId1"/><sheet name="Notes" sheetId="2" r:id="rId2"/></sheets></workbook>',
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/></Relationships>',
+    ),
+    'xl/sharedStrings.xml': strToU8(
+      '<sst><si><t>Region</t></si><si><r><t>Total</t></r><r><t xml:space="preserve">, net</t></r></si></sst>',
+    ),
+    'xl/worksheets/sheet1.xml': strToU8(
+      '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+        '<row r="2"/>' +
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>North</t></is></c><c r="B3" t="b"><v>1</v></c><c r="C3"><v>12.5</v></c></row>' +
+        '</sheetData></worksheet>',
+    ),
+    'xl/worksheets/sheet2.xml': strToU8(
+      '<worksheet><sheetData><row r="1"><c r="A1" t="str"><v>ok</v></c></row></sheetData></worksheet>',
+    ),
+  });
+}
+
+test('parsePageRange parses pages and ranges', () => {
+  expect(parsePageRange('3', 10)).toEqual([3]);
+  expect(parsePageRange('5-7, 1,6', 10)).toEqual([1, 5, 6, 7]);
+  expect(() => parsePageRange('9-11', 10)).toThrow('has 10 pages');
+  expect(() => parsePageRange('first', 10)).toThrow('Invalid pages');
+});
+
+test('formatPageRange merges consecutive pages', () => {
+  expect(formatPageRange([1, 2, 3, 5, 7, 8])).toBe('1-3,5,7-8');
+});
+
+test('parseDocx extracts paragraphs, headings, lists and tables', () => {
+  const docx = createDocx(
+    '<w:p><w:pPr><w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t>Scope</w:t></w:r></w:p>' +
+      '<w:p><w:r><w:t xml:space="preserve">Fast </w:t></w:r><w:r><w:t>&amp; safe</w:t><w:tab/><w:t>ok</w:t></w:r></w:p>' +
+      '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>First</w:t></w:r></w:p>' +
+      '<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Id</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Name</w:t></w:r></w:p></w:tc></w:tr></w:tbl>' +
+      '<w:p><w:r><w:delText>removed</w:delText></w:r></w:p>',
+  );
+  expect(parseDocx(docx)).toBe(
+    '## Scope\nFast & safe\tok\n- First\n| Id | Name |',
+  );
+});
+
+test('parseDocx rejects other zip files', () => {
+  expect(() => parseDocx(zipSync({ 'a.txt': strToU8('a') }))).toThrow(
+    'Invalid Word document',
+  );
+});
+
+test('parseXlsx renders the sheets as CSV', () => {
+  const { text, description } = parseXlsx(createXlsx());
+  expect(text).toBe(
+    '<sheet index="1" name="Q1 & Q2">\nRegion,,"Total, net"\nNorth,TRUE,12.5\n</sheet>\n<sheet index="2" name="Notes">\nok\n</sheet>',
+  );
+  expect(description).toBe('sheets 1-2 of 2');
+});
+
+test('parseXlsx selects sheets', () => {
+  const { text } = parseXlsx(createXlsx(), { sheets: '2' });
+  expect(text).toBe('<sheet index="2" name="Notes">\nok\n</sheet>');
+});
@@ -0,0 +1,406 @@
+import { strFromU8, unzipSync } from 'fflate';
+import fs from 'fs';
+import path from 'pathe';
+import type { ImagePart, TextPart } from '../message';
+
+export const DOCUMENT_EXTENSIONS = new Set(['.pdf', '.docx', '.xlsx']);
+
+// Each rendered page is an image of its own, too many of them would fill the
+// context window
+export const MAX_PAGES_TO_RENDER = 20;
+const RENDER_SCALE = 1.5;
+// The native canvas the pages are rendered with, optional and not bundled,
+// a variable so that the bundler leaves the import alone
+const CANVAS_MODULE = '@napi-rs/canvas';
+
+export type DocumentContent = {
+  // The extracted text with page or sheet markers, the page markers only
+  // when the pages are rendered
+  text: string;
+  images: Array<{ page: number; image: ImagePart }>;
+  // e.g. "pages 1-5 of 12", for the tool result display
+  description: string;
+};
+
+/**
+ * Parse a page range like "3", "1-5" or "1,3,5-7" into the sorted page
+ * numbers, the range must be within the document.
+ */
+export function parsePageRange(range: string, total: number) {
+  const pages = new Set<number>();
+  for (const part of range.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) {
+      throw new Error(
+        `Invalid pages "${range}", use a page number or a range like "1-5".`,
+      );
+    }
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : Number(match[2]);
+    if (start < 1 || end < start || end > total) {
+      throw new Error(
+        `Invalid pages "${range}", the document has ${total} pages.`,
+      );
+    }
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+// "1-3,5" for the pages 1, 2, 3 and 5
+export function formatPageRange(pages: number[]) {
+  const ranges: string[] = [];
+  let start = pages[0];
+  for (let i = 1; i <= pages.length; i++) {
+    if (pages[i] !== pages[i - 1] + 1) {
+      const end = pages[i - 1];
+      ranges.push(start === end ? `${start}` : `${start}-${end}`);
+      start = pages[i];
+    }
+  }
+  return ranges.join(',');
+}
+
+function decodeXml(text: string) {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(Number.parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function getAttribute(tag: string, name: string) {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+function unzipXml(buffer: Uint8Array, filter: (name: string) => boolean) {
+  const files = unzipSync(buffer, { filter: (file) => filter(file.name) });
+  return Object.fromEntries(
+    Object.entries(files).map(([name, data]) => [name, strFromU8(data)]),
+  );
+}
+
+// pdf.js is large, it's only loaded when a PDF is read
+async function loadPdf(buffer: Uint8Array) {
+  const { getDocumentProxy } = await import('unpdf');
+  return getDocumentProxy(buffer);
+}
+
+type PdfDocument = Awaited<ReturnType<typeof loadPdf>>;
+
+async function getPdfPageText(pdf: PdfDocument, pageNumber: number) {
+  const page = await pdf.getPage(pageNumber);
+  const { items } = await page.getTextContent();
+  return items
+    .map((item) =>
+      'str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : '',
+    )
+    .join('')
+    .trim();
+}
+
+// The pages as PNG images, null when the canvas isn't installed
+async function renderPdfPages(pdf: PdfDocument, pages: number[]) {
+  const { renderPageAsImage } = await import('unpdf');
+  const images: DocumentContent['images'] = [];
+  for (const page of pages) {
+    try {
+      const dataUrl = await renderPageAsImage(pdf, page, {
+        canvasImport: () => import(CANVAS_MODULE),
+        scale: RENDER_SCALE,
+        toDataURL: true,
+      });
+      images.push({
+        page,
+        image: { type: 'image', data: dataUrl, mimeType: 'image/png' },
+      });
+    } catch {
+      return null;
+    }
+  }
+  return images;
+}
+
+export async function readPdf(
+  filePath: string,
+  opts: { pages?: string; render?: boolean } = {},
+): Promise<DocumentContent> {
+  const pdf = await loadPdf(new Uint8Array(fs.readFileSync(filePath)));
+  try {
+    const total = pdf.numPages;
+    let pages = opts.pages
+      ? parsePageRange(opts.pages, total)
+      : Array.from({ length: total }, (_, i) => i + 1);
+    let images: DocumentContent['images'] | null = null;
+    if (opts.render) {
+      if (opts.pages && pages.length > MAX_PAGES_TO_RENDER) {
+        throw new Error(
+          `Too many pages to render (${pages.length}), read at most ${MAX_PAGES_TO_RENDER} pages at once.`,
+        );
+      }
+      images = await renderPdfPages(pdf, pages.slice(0, MAX_PAGES_TO_RENDER));
+    }
+    if (images) {
+      pages = images.map(({ page }) => page);
+    }
+    const texts = images
+      ? []
+      : await Promise.all(pages.map((page) => getPdfPageText(pdf, page)));
+    const description = `${pages.length === 1 ? 'page' : 'pages'} ${formatPageRange(pages)} of ${total}`;
+    return {
+      text: images
+        ? `The PDF has ${total} pages, ${description} are rendered as images.`
+        : pages
+            .map(
+              (page, i) =>
+                `<page number="${page}">\n${texts[i] || '(No text on this page, it may be scanned)'}\n</page>`,
+            )
+            .join('\n'),
+      images: images ?? [],
+      description,
+    };
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+}
+
+/**
+ * The text of the paragraphs and tables of a Word document, headings are
+ * prefixed with # and list items with -, table cells are separated by |.
+ */
+export function parseDocx(buffer: Uint8Array) {
+  const xml = unzipXml(buffer, (name) => name === 'word/document.xml')[
+    'word/document.xml'
+  ];
+  if (xml === undefined) {
+    throw new Error('Invalid Word document: missing word/document.xml');
+  }
+  const lines: string[] = [];
+  let paragraph = '';
+  let prefix = '';
+  let row: string[] = [];
+  let cell: string[] = [];
+  let cellDepth = 0;
+  const tokens =
+    /<(\/?)w:(p|t|tab|br|tr|tc|pStyle|numPr)\b([^>]*?)(\/?)>|([^<]+)|<[^>]*>/g;
+  let inText = false;
+  for (const match of xml.matchAll(tokens)) {
+    const [, closing, tag, attributes, selfClosing, text] = match;
+    if (text !== undefined) {
+      if (inText) paragraph += decodeXml(text);
+      continue;
+    }
+    if (tag === undefined) continue;
+    if (tag === 't') {
+      inText = !closing && !selfClosing;
+    } else if (tag === 'tab' && !closing) {
+      paragraph += '\t';
+    } else if (tag === 'br' && !closing) {
+      paragraph += '\n';
+    } else if (tag === 'pStyle' && !closing) {
+      const style = getAttribute(attributes, 'w:val') ?? '';
+      const level = style.match(/^Heading(\d)$/i)?.[1];
+      if (level) {
+        prefix = `${'#'.repeat(Number(level))} `;
+      } else if (style === 'Title') {
+        prefix = '# ';
+      }
+    } else if (tag === 'numPr' && !closing && !prefix) {
+      prefix = '- ';
+    } else if (tag === 'p' && (closing || selfClosing)) {
+      const line = paragraph.trim() ? `${prefix}${paragraph}` : '';
+      if (cellDepth > 0) {
+        if (line) cell.push(line);
+      } else {
+        lines.push(line);
+      }
+      paragraph = '';
+      prefix = '';
+    } else if (tag === 'tc') {
+      if (closing) {
+        cellDepth--;
+        row.push(cell.join(' '));
+        cell = [];
+      } else if (!selfClosing) {
+        cellDepth++;
+      }
+    } else if (tag === 'tr' && closing) {
+      lines.push(`| ${row.join(' | ')} |`);
+      row = [];
+    }
+  }
+  return lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// "AB" is the column 27
+function getColumnIndex(cellRef: string) {
+  const letters = cellRef.match(/^[A-Z]+/)?.[0] ?? '';
+  return [...letters].reduce(
+    (index, c) => index * 26 + c.charCodeAt(0) - 64,
+    0,
+  );
+}
+
+function escapeCsv(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// The text of the <t> elements, skipping the phonetic guides of East Asian
+// text
+function getRichText(xml: string) {
+  return [
+    ...xml
+      .replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+      .matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g),
+  ]
+    .map((match) => decodeXml(match[1]))
+    .join('');
+}
+
+/**
+ * The sheets of a workbook as CSV, each in a <sheet> element with its name.
+ * Empty rows are skipped, dates are the serial numbers Excel stores.
+ */
+export function parseXlsx(buffer: Uint8Array, opts: { sheets?: string } = {}) {
+  const files = unzipXml(
+    buffer,
+    (name) => name.startsWith('xl/') && /\.(xml|rels)$/.test(name),
+  );
+  const workbook = files['xl/workbook.xml'];
+  if (workbook === undefined) {
+    throw new Error('Invalid spreadsheet: missing xl/workbook.xml');
+  }
+  const targets = new Map(
+    [
+      ...(files['xl/_rels/workbook.xml.rels'] ?? '').matchAll(
+        /<Relationship\b[^>]*>/g,
+      ),
+    ].map(([tag]) => {
+      const target = getAttribute(tag, 'Target') ?? '';
+      return [
+        getAttribute(tag, 'Id'),
+        target.startsWith('/') ? target.slice(1) : `xl/${target}`,
+      ];
+    }),
+  );
+  const sharedStrings = [
+    ...(files['xl/sharedStrings.xml'] ?? '').matchAll(
+      /<si\b[^>]*>([\s\S]*?)<\/si>/g,
+    ),
+  ].map((match) => getRichText(match[1]));
+  const sheets = [...workbook.matchAll(/<sheet\b[^>]*>/g)].map(([tag]) => ({
+    name: getAttribute(tag, 'name') ?? '',
+    path: targets.get(getAttribute(tag, 'r:id')),
+  }));
+  const selected = opts.sheets
+    ? parsePageRange(opts.sheets, sheets.length)
+    : sheets.map((_, i) => i + 1);
+
+  const text = selected
+    .map((index) => {
+      const sheet = sheets[index - 1];
+      const xml = (sheet.path && files[sheet.path]) || '';
+      const rows = [
+        ...xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g),
+      ].flatMap(([, rowXml = '']) => {
+        const values: string[] = [];
+        for (const [, attributes, cellXml = ''] of rowXml.matchAll(
+          /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+        )) {
+          const type = getAttribute(attributes, 't');
+          const raw = cellXml.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+          let value: string;
+          if (type === 'inlineStr') {
+            value = getRichText(cellXml);
+          } else if (raw === undefined) {
+            value = '';
+          } else if (type === 's') {
+            value = sharedStrings[Number(raw)] ?? '';
+          } else if (type === 'b') {
+            value = raw === '1' ? 'TRUE' : 'FALSE';
+          } else {
+            value = decodeXml(raw);
+          }
+          const ref = getAttribute(attributes, 'r');
+          const column = ref ? getColumnIndex(ref) - 1 : values.length;
+          while (values.length < column) values.push('');
+          values[column] = escapeCsv(value);
+        }
+        return values.some(Boolean) ? [values.join(',')] : [];
+      });
+      return `<sheet index="${index}" name="${sheet.name}">\n${rows.join('\n')}\n</sheet>`;
+    })
+    .join('\n');
+  return {
+    text,
+    description: `${selected.length === 1 ? 'sheet' : 'sheets'} ${formatPageRange(selected)} of ${sheets.length}`,
+  };
+}
+
+/**
+ * Read a PDF, Word or Excel document as text, or the pages of a PDF as
+ * images with render when the model can see them. pages selects the pages
+ * of a PDF or the sheets of a workbook, offset and limit the lines of a
+ * Word document.
+ */
+export async function readDocument(
+  filePath: string,
+  opts: {
+    pages?: string;
+    offset?: number;
+    limit?: number;
+    render?: boolean;
+  } = {},
+): Promise<DocumentContent> {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.pdf') {
+    return readPdf(filePath, opts);
+  }
+  const buffer = new Uint8Array(fs.readFileSync(filePath));
+  if (ext === '.xlsx') {
+    return { ...parseXlsx(buffer, { sheets: opts.pages }), images: [] };
+  }
+  if (opts.pages) {
+    throw new Error(
+      'The pages parameter only applies to PDF files and spreadsheets, use offset and limit for Word documents.',
+    );
+  }
+  const lines = parseDocx(buffer).split('\n');
+  const start = Math.max(0, (opts.offset ?? 1) - 1);
+  const end =
+    opts.limit === undefined
+      ? lines.length
+      : Math.min(lines.length, start + opts.limit);
+  return {
+    text: lines.slice(start, end).join('\n'),
+    images: [],
+    description: `lines ${start + 1}-${end} of ${lines.length}`,
+  };
+}
+
+/**
+ * The content as the parts of a tool result or user message, each rendered
+ * page after its page marker.
+ */
+export function getDocumentParts(
+  content: DocumentContent,
+): Array<TextPart | ImagePart> {
+  return [
+    { type: 'text', text: content.text },
+    ...content.images.flatMap(({ page, image }) => [
+      { type: 'text' as const, text: `<page number="${page}">` },
+      image,
+    ]),
+  ];
+}
@@ -36,3 +36,38 @@ export class MaxFileReadTokenExceededError extends Error {
     this.tokenCount = tokenCount;
   }
 }
+
+export class MaxDocumentReadTokenExceededError extends Error {
+  public readonly maxTokens: number;
+  public readonly tokenCount: number;
+  constructor(tokenCount: number, maxTokens: number) {
+    super(
+      `Document content (${tokenCount} tokens) exceeds maximum allowed tokens (${maxTokens}). Please use the pages parameter to read specific pages of a PDF or sheets of a spreadsheet, or offset and limit for a Word document.`,
+    );
+    this.name = 'MaxDocumentReadTokenExceededError';
+    this.maxTokens = maxTokens;
+    this.tokenCount = tokenCount;
+  }
+}
+
+export class FileNotReadError extends Error {
+  public readonly filePath: string;
+  constructor(filePath: string) {
+    super(
+      `File ${filePath} has not been read yet. Use the read tool to read it before editing or overwriting it.`,
+    );
+    this.name = 'FileNotReadError';
+    this.filePath = filePath;
+  }
+}
+
+export class FileChangedSinceReadError extends Error {
+  public readonly filePath: string;
+  constructor(filePath: string) {
+    super(
+      `File ${filePath} has been modified since it was last read, either by the user or by another tool. Use the read tool to read it again before editing or overwriting it.`,
+    );
+    this.name = 'FileChangedSinceReadError';
+    this.filePath = filePath;
+  }
+}
@@ -0,0 +1,156 @@
+import { expect, test } from 'vitest';
+import {
+  editNotebook,
+  getNotebookDiffText,
+  type Notebook,
+  parseNotebook,
+  renderNotebook,
+  serializeNotebook,
+} from './notebook';
+
+function createNotebook(): Notebook {
+  return {
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: { language_info: { name: 'python' } },
+    cells: [
+      {
+        id: 'intro',
+        cell_type: 'markdown',
+        metadata: {},
+        source: ['# Sales\n', 'Monthly report'],
+      },
+      {
+        id: 'plot',
+        cell_type: 'code',
+        metadata: {},
+        execution_count: 2,
+        source: 'df.plot()',
+        outputs: [
+          { output_type: 'stream', name: 'stdout', text: ['loaded\n'] },
+          {
+            output_type: 'display_data',
+            data: { 'image/png': 'iVBORw0\nKGgo=\n', 'text/plain': 'fig' },
+          },
+          {
+            output_type: 'error',
+            ename: 'KeyError',
+            evalue: "'x'",
+            traceback: ['\u001b[31mKeyError\u001b[0m: x'],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+test('renders cells with their outputs and images', () => {
+  const parts = renderNotebook(createNotebook());
+  expect(parts).toHaveLength(3);
+  expect(parts[0]).toEqual({
+    type: 'text',
+    text: [
+      '<cell id="intro" type="markdown">',
+      '# Sales',
+      'Monthly report',
+      '</cell>',
+      '<cell id="plot" type="code" language="python" execution_count="2">',
+      'df.plot()',
+      '</cell>',
+      '<output cell_id="plot" type="stream">',
+      'loaded\n',
+      '</output>',
+      '<output cell_id="plot" type="display_data">',
+    ].join('\n'),
+  });
+  expect(parts[1]).toEqual({
+    type: 'image',
+    data: 'data:image/png;base64,iVBORw0KGgo=',
+    mimeType: 'image/png',
+  });
+  expect(parts[2]).toMatchObject({ type: 'text' });
+  expect((parts[2] as { text: string }).text).toContain('KeyError: x');
+  expect(renderNotebook(createNotebook(), { offset: 2, limit: 1 })[0]).toEqual(
+    expect.objectContaining({
+      text: expect.stringMatching(/^<cell id="plot"/),
+    }),
+  );
+});
+
+test('replaces, inserts and deletes cells by id', () => {
+  const notebook = createNotebook();
+  const replaced = editNotebook(notebook, {
+    cell_id: 'plot',
+    new_source: 'df.describe()\n',
+  });
+  expect(replaced.cells[1]).toEqual({
+    id: 'plot',
+    cell_type: 'code',
+    metadata: {},
+    source: ['df.describe()\n'],
+    outputs: [],
+    execution_count: null,
+  });
+  expect(notebook.cells[1].source).toBe('df.plot()');
+
+  const inserted = editNotebook(notebook, {
+    new_source: 'import pandas as pd',
+    cell_type: 'code',
+    edit_mode: 'insert',
+  });
+  expect(inserted.cells[0]).toMatchObject({
+    cell_type: 'code',
+    source: ['import pandas as pd'],
+    outputs: [],
+  });
+  expect(inserted.cells[0].id).toMatch(/^[0-9a-f]{8}$/);
+
+  const deleted = editNotebook(notebook, {
+    cell_id: 'intro',
+    edit_mode: 'delete',
+  });
+  expect(getNotebookDiffText(deleted)).toBe('# %% [code] plot\ndf.plot()');
+  expect(() =>
+    editNotebook(notebook, { cell_id: 'x', new_source: '' }),
+  ).toThrow('Cell x not found');
+  expect(() =>
+    editNotebook(notebook, { new_source: 'x', edit_mode: 'insert' }),
+  ).toThrow('cell_type is required');
+});
+
+test('keeps the index names of cells without ids after inserting a cell', () => {
+  const notebook = createNotebook();
+  notebook.nbformat_minor = 4;
+  for (const cell of notebook.cells) {
+    delete cell.id;
+  }
+  const inserted = editNotebook(notebook, {
+    cell_id: 'cell-0',
+    new_source: 'import pandas as pd',
+    cell_type: 'code',
+    edit_mode: 'insert',
+  });
+  expect(inserted.nbformat_minor).toBe(5);
+  expect(inserted.cells.map((cell) => cell.id)).toEqual([
+    'cell-0',
+    expect.stringMatching(/^[0-9a-f]{8}$/),
+    'cell-1',
+  ]);
+  const deleted = editNotebook(inserted, {
+    cell_id: 'cell-1',
+    edit_mode: 'delete',
+  });
+  expect(deleted.cells.map((cell) => cell.source)).toEqual([
+    ['# Sales\n', 'Monthly report'],
+    ['import pandas as pd'],
+  ]);
+  expect(notebook.cells[0].id).toBeUndefined();
+});
+
+test('writes notebooks the way Jupyter does', () => {
+  const content = serializeNotebook(createNotebook());
+  expect(content.endsWith('}\n')).toBe(true);
+  expect(content).toContain('\n "cells": [');
+  expect(parseNotebook(content)).toEqual(createNotebook());
+  expect(() => parseNotebook('{}')).toThrow('missing cells');
+});
@@ -0,0 +1,302 @@
+import fs from 'fs';
+import stripAnsi from 'strip-ansi';
+import type { ImagePart, TextPart } from '../message';
+import { randomUUID } from './randomUUID';
+
+const MAX_OUTPUT_LENGTH = 4000;
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif'];
+
+export type NotebookCellType = 'code' | 'markdown' | 'raw';
+
+type MultilineString = string | string[];
+
+type NotebookOutput =
+  | { output_type: 'stream'; name: string; text: MultilineString }
+  | {
+      output_type: 'execute_result' | 'display_data';
+      data: Record<string, MultilineString>;
+      metadata?: Record<string, unknown>;
+      execution_count?: number | null;
+    }
+  | {
+      output_type: 'error';
+      ename: string;
+      evalue: string;
+      traceback: string[];
+    };
+
+export type NotebookCell = {
+  id?: string;
+  cell_type: NotebookCellType;
+  source: MultilineString;
+  metadata: Record<string, unknown>;
+  outputs?: NotebookOutput[];
+  execution_count?: number | null;
+  attachments?: Record<string, unknown>;
+};
+
+export type Notebook = {
+  cells: NotebookCell[];
+  metadata: Record<string, any>;
+  nbformat: number;
+  nbformat_minor: number;
+};
+
+export type NotebookEdit = {
+  // The cell to replace or delete, or to insert after, the insertion is at
+  // the start of the notebook without it
+  cell_id?: string;
+  new_source?: string;
+  cell_type?: NotebookCellType;
+  edit_mode?: 'replace' | 'insert' | 'delete';
+};
+
+function joinMultiline(value: MultilineString | undefined) {
+  return Array.isArray(value) ? value.join('') : (value ?? '');
+}
+
+// nbformat stores sources as lines that keep their line break
+function splitMultiline(value: string) {
+  return value.split(/(?<=\n)/).filter(Boolean);
+}
+
+function truncateOutput(text: string) {
+  return text.length > MAX_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_OUTPUT_LENGTH)}\n... (output truncated, ${text.length - MAX_OUTPUT_LENGTH} more characters)`
+    : text;
+}
+
+export function parseNotebook(content: string): Notebook {
+  const notebook = JSON.parse(content);
+  if (!Array.isArray(notebook?.cells)) {
+    throw new Error('Invalid notebook: missing cells');
+  }
+  return notebook;
+}
+
+export function readNotebook(filePath: string) {
+  return parseNotebook(fs.readFileSync(filePath, 'utf-8'));
+}
+
+// Jupyter writes notebooks indented by one space with a final line break
+export function serializeNotebook(notebook: Notebook) {
+  return `${JSON.stringify(notebook, null, 1)}\n`;
+}
+
+/**
+ * The id of a cell, cells of notebooks older than nbformat 4.5 have none and
+ * are named by their index instead.
+ */
+export function getCellId(cell: NotebookCell, index: number) {
+  return cell.id ?? `cell-${index}`;
+}
+
+function getLanguage(notebook: Notebook) {
+  return (
+    notebook.metadata?.language_info?.name ||
+    notebook.metadata?.kernelspec?.language ||
+    'python'
+  );
+}
+
+function renderOutput(
+  output: NotebookOutput,
+): Array<TextPart | ImagePart> | null {
+  if (output.output_type === 'stream') {
+    return [
+      {
+        type: 'text',
+        text: truncateOutput(joinMultiline(output.text)),
+      },
+    ];
+  }
+  if (output.output_type === 'error') {
+    return [
+      {
+        type: 'text',
+        text: truncateOutput(
+          stripAnsi(
+            output.traceback?.join('\n') || `${output.ename}: ${output.evalue}`,
+          ),
+        ),
+      },
+    ];
+  }
+  const { data } = output;
+  const imageType = IMAGE_MIME_TYPES.find((mimeType) => data?.[mimeType]);
+  if (imageType) {
+    const base64 = joinMultiline(data[imageType]).replace(/\s/g, '');
+    return [
+      {
+        type: 'image',
+        data: `data:${imageType};base64,${base64}`,
+        mimeType: imageType,
+      },
+    ];
+  }
+  const text = data?.['text/plain'] ?? data?.['text/markdown'];
+  if (text === undefined) {
+    return null;
+  }
+  return [{ type: 'text', text: truncateOutput(joinMultiline(text)) }];
+}
+
+/**
+ * Render the cells of a notebook for the model, each cell with its id, type
+ * and source, followed by its outputs. Image outputs are image parts, the
+ * other parts are merged into text parts.
+ */
+export function renderNotebook(
+  notebook: Notebook,
+  opts: { offset?: number; limit?: number } = {},
+): Array<TextPart | ImagePart> {
+  const language = getLanguage(notebook);
+  const start = Math.max(0, (opts.offset ?? 1) - 1);
+  const end =
+    opts.limit === undefined ? notebook.cells.length : start + opts.limit;
+  const parts: Array<TextPart | ImagePart> = [];
+  const pushText = (text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === 'text') {
+      last.text += `\n${text}`;
+    } else {
+      parts.push({ type: 'text', text });
+    }
+  };
+  notebook.cells.slice(start, end).forEach((cell, i) => {
+    const id = getCellId(cell, start + i);
+    const attributes = [`id="${id}"`, `type="${cell.cell_type}"`];
+    if (cell.cell_type === 'code') {
+      attributes.push(`language="${language}"`);
+      if (typeof cell.execution_count === 'number') {
+        attributes.push(`execution_count="${cell.execution_count}"`);
+      }
+    }
+    pushText(
+      `<cell ${attributes.join(' ')}>\n${joinMultiline(cell.source)}\n</cell>`,
+    );
+    for (const output of cell.outputs ?? []) {
+      const outputParts = renderOutput(output);
+      if (!outputParts) continue;
+      pushText(`<output cell_id="${id}" type="${output.output_type}">`);
+      for (const part of outputParts) {
+        if (part.type === 'text') {
+          pushText(part.text);
+        } else {
+          parts.push(part);
+        }
+      }
+      pushText('</output>');
+    }
+  });
+  if (parts.length === 0) {
+    pushText('The notebook has no cells in this range.');
+  }
+  return parts;
+}
+
+/**
+ * The sources of the cells as text, for a readable diff of notebook edits.
+ */
+export function getNotebookDiffText(notebook: Notebook) {
+  return notebook.cells
+    .map(
+      (cell, index) =>
+        `# %% [${cell.cell_type}] ${getCellId(cell, index)}\n${joinMultiline(cell.source)}`,
+    )
+    .join('\n\n');
+}
+
+function createCell(
+  notebook: Notebook,
+  cellType: NotebookCellType,
+  source: string,
+): NotebookCell {
+  const cell: NotebookCell = {
+    cell_type: cellType,
+    source: splitMultiline(source),
+    metadata: {},
+  };
+  // Cell ids were added in nbformat 4.5
+  if (
+    notebook.nbformat > 4 ||
+    (notebook.nbformat === 4 && notebook.nbformat_minor >= 5)
+  ) {
+    cell.id = randomUUID().replace(/-/g, '').slice(0, 8);
+  }
+  if (cellType === 'code') {
+    cell.outputs = [];
+    cell.execution_count = null;
+  }
+  return cell;
+}
+
+/**
+ * Upgrade a notebook to nbformat 4.5, the cells get the index names they
+ * were read with as ids.
+ */
+function assignCellIds(notebook: Notebook): Notebook {
+  return {
+    ...notebook,
+    nbformat_minor: 5,
+    cells: notebook.cells.map((cell, index) => ({
+      ...cell,
+      id: getCellId(cell, index),
+    })),
+  };
+}
+
+/**
+ * Apply an edit to a copy of the notebook. A replaced code cell loses its
+ * outputs, they don't match its source anymore.
+ */
+export function editNotebook(original: Notebook, edit: NotebookEdit) {
+  const mode = edit.edit_mode ?? 'replace';
+  // Inserting or deleting a cell would rename the cells after it in a
+  // notebook without ids, they keep their names as real ids instead
+  const notebook =
+    mode !== 'replace' && original.nbformat === 4 && original.nbformat_minor < 5
+      ? assignCellIds(original)
+      : original;
+  const cells = [...notebook.cells];
+  const index =
+    edit.cell_id === undefined
+      ? -1
+      : cells.findIndex((cell, i) => getCellId(cell, i) === edit.cell_id);
+  if (edit.cell_id !== undefined && index === -1) {
+    throw new Error(
+      `Cell ${edit.cell_id} not found, read the notebook to get the cell ids.`,
+    );
+  }
+  if (mode !== 'delete' && edit.new_source === undefined) {
+    throw new Error(`new_source is required to ${mode} a cell.`);
+  }
+  if (mode === 'insert') {
+    if (!edit.cell_type) {
+      throw new Error('cell_type is required to insert a cell.');
+    }
+    cells.splice(
+      index + 1,
+      0,
+      createCell(notebook, edit.cell_type, edit.new_source!),
+    );
+  } else {
+    if (index === -1) {
+      throw new Error(`cell_id is required to ${mode} a cell.`);
+    }
+    if (mode === 'delete') {
+      cells.splice(index, 1);
+    } else {
+      const cell = cells[index];
+      const cellType = edit.cell_type ?? cell.cell_type;
+      const { outputs: _outputs, execution_count: _count, ...rest } = cell;
+      cells[index] = {
+        ...rest,
+        cell_type: cellType,
+        source: splitMultiline(edit.new_source!),
+        ...(cellType === 'code' && { outputs: [], execution_count: null }),
+      };
+    }
+  }
+  return { ...notebook, cells };
+}
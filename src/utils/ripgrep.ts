@@ -1,4 +1,4 @@
-import { execFile } from 'child_process';
+import { spawn } from 'child_process';
 import createDebug from 'debug';
 import path from 'pathe';
 import { findActualExecutable } from 'spawn-rx';
@@ -28,27 +28,100 @@ function ripgrepPath() {
   }
 }
 
+const TIMEOUT = 20_000;
+
+export type RipGrepResult = {
+  lines: string[];
+  // ripgrep was stopped after `maxLines` lines, there are more
+  truncated: boolean;
+};
+
+/**
+ * Run ripgrep and collect its output lines, it's stopped once `maxLines`
+ * are collected. No match is an empty result, ripgrep errors like an
+ * invalid pattern or file type are thrown with the message of ripgrep.
+ */
 export async function ripGrep(
   args: string[],
   target: string,
-): Promise<string[]> {
+  opts: { maxLines?: number } = {},
+): Promise<RipGrepResult> {
   const rg = ripgrepPath();
-  return new Promise((resolve) => {
-    execFile(
-      rg,
-      [...args, target],
-      {
-        maxBuffer: 1_000_000,
-        timeout: 20_000,
-      },
-      (err, stdout) => {
-        if (err) {
-          debug(`[Ripgrep] Error: ${err}`);
-          resolve([]);
-        } else {
-          resolve(stdout.trim().split('\n').filter(Boolean));
+  const maxLines = opts.maxLines ?? Number.POSITIVE_INFINITY;
+  return new Promise((resolve, reject) => {
+    const child = spawn(rg, [...args, target], {
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    const lines: string[] = [];
+    let buffer = '';
+    let stderr = '';
+    let truncated = false;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, TIMEOUT);
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (data: string) => {
+      if (truncated) return;
+      const parts = (buffer + data).split('\n');
+      // Keep the last incomplete line in buffer
+      buffer = parts.pop() || '';
+      for (const line of parts) {
+        if (!line) continue;
+        if (lines.length >= maxLines) {
+          truncated = true;
+          child.stdout.destroy();
+          child.kill();
+          return;
+        }
+        lines.push(line);
+      }
+    });
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (data: string) => {
+      stderr += data;
+    });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      debug(`[Ripgrep] Error: ${error}`);
+      reject(new Error(`Failed to run ripgrep: ${error.message}`));
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (truncated) {
+        resolve({ lines, truncated });
+        return;
+      }
+      if (timedOut) {
+        reject(
+          new Error(
+            `Search timed out after ${TIMEOUT / 1000}s, narrow it down with a path, include or type`,
+          ),
+        );
+        return;
+      }
+      if (buffer && lines.length < maxLines) {
+        lines.push(buffer);
+      } else if (buffer) {
+        truncated = true;
+      }
+      // 1 means no match, 2 is also returned when some files couldn't be
+      // read, which only matters if nothing was found
+      if (code === 0 || code === 1 || (code === 2 && lines.length > 0)) {
+        if (stderr) {
+          debug(`[Ripgrep] ${stderr}`);
         }
-      },
-    );
+        resolve({ lines, truncated });
+        return;
+      }
+      debug(`[Ripgrep] Error: exit code ${code}, ${stderr}`);
+      reject(
+        new Error(
+          `ripgrep failed: ${stderr.trim() || `exited with code ${code}`}`,
+        ),
+      );
+    });
   });
 }
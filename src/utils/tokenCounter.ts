@@ -1,3 +1,7 @@
+import type {
+  LanguageModelV2FunctionTool,
+  LanguageModelV2Prompt,
+} from '@ai-sdk/provider';
 import { encode } from 'gpt-tokenizer';
 
 /**
@@ -17,3 +21,62 @@ export function countTokens(text: string): number {
     return Math.ceil(text.length / 4);
   }
 }
+
+// Rough size of an image or file, providers count them by their dimensions
+// or pages instead of their encoded data
+const FILE_TOKENS = 1_600;
+
+function countPartTokens(part: Record<string, any>): number {
+  switch (part.type) {
+    case 'text':
+    case 'reasoning':
+      return countTokens(part.text);
+    case 'file':
+    case 'media':
+    case 'image':
+      return FILE_TOKENS;
+    case 'tool-call':
+      return countTokens(JSON.stringify(part.input));
+    case 'tool-result': {
+      const output = part.output;
+      if (output?.type === 'content' && Array.isArray(output.value)) {
+        return output.value.reduce(
+          (sum: number, item: Record<string, any>) =>
+            sum +
+            (item.type === 'text'
+              ? countTokens(item.text ?? item.value)
+              : FILE_TOKENS),
+          0,
+        );
+      }
+      return countTokens(
+        typeof output?.value === 'string'
+          ? output.value
+          : JSON.stringify(output),
+      );
+    }
+    default:
+      return countTokens(JSON.stringify(part));
+  }
+}
+
+/**
+ * Estimate the number of tokens of a prompt before it's sent, the count of
+ * the provider may differ since every model has its own tokenizer.
+ */
+export function countPromptTokens(
+  prompt: LanguageModelV2Prompt,
+  tools: LanguageModelV2FunctionTool[] = [],
+): number {
+  let tokens = tools.length > 0 ? countTokens(JSON.stringify(tools)) : 0;
+  for (const message of prompt) {
+    if (typeof message.content === 'string') {
+      tokens += countTokens(message.content);
+      continue;
+    }
+    for (const part of message.content) {
+      tokens += countPartTokens(part);
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,48 @@
+import os from 'os';
+import { expect, test } from 'vitest';
+import { runVerifyCommands } from './verify';
+
+const cwd = os.tmpdir();
+
+test.skipIf(os.platform() === 'win32')(
+  'succeeds when all commands pass',
+  async () => {
+    const result = await runVerifyCommands({
+      commands: ['true', 'echo ok'],
+      cwd,
+    });
+    expect(result).toEqual({ success: true });
+  },
+);
+
+test.skipIf(os.platform() === 'win32')(
+  'returns the first failing command with its output',
+  async () => {
+    const result = await runVerifyCommands({
+      commands: ['true', 'echo broken build && exit 2', 'echo never'],
+      cwd,
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.command).toBe('echo broken build && exit 2');
+      expect(result.output).toContain('exited with code 2');
+      expect(result.output).toContain('broken build');
+    }
+  },
+);
+
+test.skipIf(os.platform() === 'win32')(
+  'keeps the tail of long output',
+  async () => {
+    const result = await runVerifyCommands({
+      commands: ['seq 1 500; exit 1'],
+      cwd,
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.output).toContain('400 lines omitted');
+      expect(result.output).toContain('500');
+      expect(result.output).not.toContain('\n400\n');
+    }
+  },
+);
@@ -0,0 +1,87 @@
+import createDebug from 'debug';
+import os from 'os';
+import { shellExecute } from './utils/shell-execution';
+
+const VERIFY_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+const MAX_OUTPUT_LINES = 100;
+const MAX_OUTPUT_LENGTH = 10000;
+
+const debug = createDebug('neovate:verify');
+
+export type VerifyResult =
+  | {
+      success: true;
+    }
+  | {
+      success: false;
+      command: string;
+      output: string;
+    };
+
+/**
+ * Keep the tail of the output, that's where the errors and summaries of
+ * compilers and test runners usually are
+ */
+function trimOutput(output: string) {
+  let lines = output.trim().split('\n');
+  let omittedLines = 0;
+  if (lines.length > MAX_OUTPUT_LINES) {
+    omittedLines = lines.length - MAX_OUTPUT_LINES;
+    lines = lines.slice(-MAX_OUTPUT_LINES);
+  }
+  let trimmed = lines.join('\n');
+  if (trimmed.length > MAX_OUTPUT_LENGTH) {
+    trimmed = trimmed.slice(-MAX_OUTPUT_LENGTH);
+  }
+  return omittedLines > 0
+    ? `… ${omittedLines} lines omitted\n${trimmed}`
+    : trimmed;
+}
+
+export async function runVerifyCommands(opts: {
+  commands: string[];
+  cwd: string;
+  signal?: AbortSignal;
+}): Promise<VerifyResult> {
+  for (const command of opts.commands) {
+    if (opts.signal?.aborted) {
+      break;
+    }
+    debug('run verify command', command);
+    const { result: resultPromise, pid } = shellExecute(
+      command,
+      opts.cwd,
+      VERIFY_TIMEOUT,
+    );
+    // Kill the process group of the command when the loop is canceled
+    const onAbort = () => {
+      if (!pid) return;
+      try {
+        process.kill(os.platform() === 'win32' ? pid : -pid, 'SIGTERM');
+      } catch {}
+    };
+    opts.signal?.addEventListener('abort', onAbort, { once: true });
+    const result = await resultPromise;
+    opts.signal?.removeEventListener('abort', onAbort);
+    if (opts.signal?.aborted) {
+      break;
+    }
+    if (result.exitCode === 0 && !result.error && !result.cancelled) {
+      continue;
+    }
+    const reason = (() => {
+      if (result.cancelled) return 'Command timed out and was cancelled.';
+      if (result.signal) return `Command was terminated by ${result.signal}.`;
+      if (result.error) return `Command failed: ${result.error.message}`;
+      return `Command exited with code ${result.exitCode}.`;
+    })();
+    const output = trimOutput(result.output || '');
+    debug('verify command failed', command, reason);
+    return {
+      success: false,
+      command,
+      output: output ? `${reason}\n${output}` : reason,
+    };
+  }
+  return { success: true };
+}